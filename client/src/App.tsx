@@ -6,12 +6,16 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/lib/theme-provider";
 import { GlobalLoadingIndicator } from "@/components/global-loading-indicator";
 import Home from "@/pages/home";
+import FeedDiagnostics from "@/pages/feed-diagnostics";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/feeds/:id/diagnostics" component={FeedDiagnostics} />
+      <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
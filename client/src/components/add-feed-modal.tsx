@@ -3,7 +3,9 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
+import { formatDistanceToNow } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { proxyImageUrl } from "@/lib/image-proxy";
 import { useToast } from "@/hooks/use-toast";
 import {
   Dialog,
@@ -30,10 +32,26 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Loader2, Rss, Plus, Check, Search, Globe } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Rss, Plus, Check, Search, Globe, Lock, ChevronDown, Eye } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
-import type { Category } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  FeedCredentialsFields,
+  emptyCredentials,
+  hasCredentials,
+  cleanCredentials,
+} from "@/components/feed-credentials-fields";
+import {
+  WebPageFeedFields,
+  WebPagePreviewList,
+  emptySelectors,
+  cleanSelectors,
+  type WebPagePreview,
+} from "@/components/web-page-feed-fields";
+import type { Category, FeedCredentials, WebPageSelectors } from "@shared/schema";
 
 // Flexible URL validation - accepts bare domains like "example.com"
 const addFeedSchema = z.object({
@@ -43,10 +61,20 @@ const addFeedSchema = z.object({
 
 type AddFeedForm = z.infer<typeof addFeedSchema>;
 
+// "webPage" builds a feed from a page without one, using CSS selectors
+type AddFeedMode = "feed" | "webPage";
+
+// As returned by POST /api/feeds/discover (see server/discovery.ts)
 interface DiscoveredFeed {
   url: string;
   title: string;
   type: string;
+  platform?: string | null;
+  description?: string | null;
+  iconUrl?: string | null;
+  itemCount?: number | null;
+  lastUpdated?: string | null;
+  verified?: boolean;
 }
 
 interface AddFeedModalProps {
@@ -61,6 +89,14 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
   const [discoveredFeeds, setDiscoveredFeeds] = useState<DiscoveredFeed[]>([]);
   const [selectedFeedUrl, setSelectedFeedUrl] = useState<string>("");
   const [showDiscovery, setShowDiscovery] = useState(false);
+  const [showCredentials, setShowCredentials] = useState(false);
+  const [credentials, setCredentials] = useState<FeedCredentials>(emptyCredentials);
+  const [mode, setMode] = useState<AddFeedMode>("feed");
+  const [selectors, setSelectors] = useState<WebPageSelectors>(emptySelectors);
+  const [preview, setPreview] = useState<WebPagePreview | null>(null);
+
+  // Only send credentials when the user actually entered some
+  const requestCredentials = hasCredentials(credentials) ? cleanCredentials(credentials) : undefined;
 
   const { data: categories = [] } = useQuery<Category[]>({
     queryKey: ["/api/categories"],
@@ -80,12 +116,20 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
       setDiscoveredFeeds([]);
       setSelectedFeedUrl("");
       setShowDiscovery(false);
+      setShowCredentials(false);
+      setCredentials(emptyCredentials);
+      setMode("feed");
+      setSelectors(emptySelectors);
+      setPreview(null);
     }
   }, [open]);
 
   const discoverMutation = useMutation({
     mutationFn: async (url: string): Promise<{ feeds: DiscoveredFeed[]; directFeed?: boolean }> => {
-      const response = await apiRequest("POST", "/api/feeds/discover", { url });
+      const response = await apiRequest("POST", "/api/feeds/discover", {
+        url,
+        credentials: requestCredentials,
+      });
       return response.json();
     },
     onSuccess: (data) => {
@@ -98,10 +142,11 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
         setSelectedFeedUrl(data.feeds[0].url);
         setShowDiscovery(true);
       } else {
+        // The page can still be followed by picking its entries with selectors
+        setMode("webPage");
         toast({
           title: "No feeds found",
-          description: "Could not find any RSS feeds on this website. Try entering the feed URL directly.",
-          variant: "destructive",
+          description: "This website has no RSS feed. You can still follow the page by choosing CSS selectors for its entries.",
         });
       }
     },
@@ -114,11 +159,35 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
     },
   });
 
+  const previewMutation = useMutation({
+    mutationFn: async (url: string): Promise<WebPagePreview> => {
+      const response = await apiRequest("POST", "/api/feeds/web-page-preview", {
+        url,
+        selectors: cleanSelectors(selectors),
+        credentials: requestCredentials,
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+    },
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        title: "Failed to preview page",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const addFeedMutation = useMutation({
-    mutationFn: async (data: AddFeedForm) => {
+    mutationFn: async (data: AddFeedForm & { selectors?: WebPageSelectors }) => {
       const response = await apiRequest("POST", "/api/feeds", {
         url: data.url,
         categoryId: data.categoryId || null,
+        credentials: requestCredentials,
+        selectors: data.selectors,
       });
       return response;
     },
@@ -170,6 +239,11 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
   });
 
   const onSubmit = (data: AddFeedForm) => {
+    if (mode === "webPage") {
+      previewMutation.mutate(data.url);
+      return;
+    }
+
     // If we have discovered feeds and a selection, use that
     if (showDiscovery && selectedFeedUrl) {
       addFeedMutation.mutate({ ...data, url: selectedFeedUrl });
@@ -188,6 +262,19 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
     }
   };
 
+  const handleAddWebPageFeed = () => {
+    addFeedMutation.mutate({
+      url: form.getValues("url"),
+      categoryId: form.getValues("categoryId"),
+      selectors: cleanSelectors(selectors),
+    });
+  };
+
+  const handleSelectorsChange = (value: WebPageSelectors) => {
+    setSelectors(value);
+    setPreview(null);
+  };
+
   const handleCreateCategory = () => {
     if (newCategoryName.trim()) {
       addCategoryMutation.mutate(newCategoryName.trim());
@@ -207,6 +294,13 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
           </DialogDescription>
         </DialogHeader>
 
+        <Tabs value={mode} onValueChange={(value) => setMode(value as AddFeedMode)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="feed" data-testid="tab-add-feed">Feed or website</TabsTrigger>
+            <TabsTrigger value="webPage" data-testid="tab-add-web-page">Web page</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
             <FormField
@@ -228,6 +322,7 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
                             setDiscoveredFeeds([]);
                             setSelectedFeedUrl("");
                           }
+                          setPreview(null);
                         }}
                         data-testid="input-feed-url"
                       />
@@ -238,8 +333,15 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
               )}
             />
 
+            {mode === "webPage" && (
+              <>
+                <WebPageFeedFields value={selectors} onChange={handleSelectorsChange} />
+                {preview && <WebPagePreviewList preview={preview} />}
+              </>
+            )}
+
             {/* Discovered feeds list */}
-            {showDiscovery && discoveredFeeds.length > 0 && (
+            {mode === "feed" && showDiscovery && discoveredFeeds.length > 0 && (
               <div className="space-y-2">
                 <Label className="text-sm font-medium flex items-center gap-2">
                   <Search className="h-4 w-4" />
@@ -260,14 +362,41 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
                         id={`feed-${index}`}
                         data-testid={`radio-feed-${index}`}
                       />
+                      {feed.iconUrl ? (
+                        <img
+                          src={proxyImageUrl(feed.iconUrl, { width: 160 })}
+                          alt=""
+                          className="h-8 w-8 rounded object-cover flex-shrink-0"
+                          onError={(e) => {
+                            (e.target as HTMLImageElement).style.display = "none";
+                          }}
+                        />
+                      ) : (
+                        <Rss className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+                      )}
                       <Label
                         htmlFor={`feed-${index}`}
-                        className="flex-1 cursor-pointer"
+                        className="flex-1 min-w-0 cursor-pointer space-y-0.5"
                       >
-                        <div className="font-medium">{feed.title || "Untitled Feed"}</div>
-                        <div className="text-xs text-muted-foreground truncate">
-                          {feed.type} - {feed.url}
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{feed.title || "Untitled Feed"}</span>
+                          {feed.platform && (
+                            <Badge variant="secondary" className="flex-shrink-0">{feed.platform}</Badge>
+                          )}
+                        </div>
+                        {feed.description && (
+                          <div className="text-xs text-muted-foreground line-clamp-2 font-normal">
+                            {feed.description}
+                          </div>
+                        )}
+                        <div className="text-xs text-muted-foreground truncate font-normal">
+                          {feed.type}
+                          {feed.verified === false
+                            ? " · couldn't be fetched, it may need a login"
+                            : feed.itemCount != null && ` · ${feed.itemCount} item${feed.itemCount === 1 ? "" : "s"}`}
+                          {feed.lastUpdated && ` · updated ${formatDistanceToNow(new Date(feed.lastUpdated), { addSuffix: true })}`}
                         </div>
+                        <div className="text-xs text-muted-foreground truncate font-normal">{feed.url}</div>
                       </Label>
                     </div>
                   ))}
@@ -275,6 +404,25 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
               </div>
             )}
 
+            <Collapsible open={showCredentials} onOpenChange={setShowCredentials}>
+              <CollapsibleTrigger asChild>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="px-2"
+                  data-testid="button-toggle-credentials"
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  This feed requires a login
+                  <ChevronDown className={`h-4 w-4 ml-1 transition-transform ${showCredentials ? "rotate-180" : ""}`} />
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="pt-2">
+                <FeedCredentialsFields value={credentials} onChange={setCredentials} />
+              </CollapsibleContent>
+            </Collapsible>
+
             <FormField
               control={form.control}
               name="categoryId"
@@ -364,7 +512,36 @@ export function AddFeedModal({ open, onOpenChange }: AddFeedModalProps) {
               >
                 Cancel
               </Button>
-              {showDiscovery && discoveredFeeds.length > 0 ? (
+              {mode === "webPage" ? (
+                <>
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    disabled={previewMutation.isPending || !selectors.item.trim()}
+                    data-testid="button-preview-web-page"
+                  >
+                    {previewMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Eye className="h-4 w-4 mr-2" />
+                    )}
+                    Preview
+                  </Button>
+                  <Button
+                    type="button"
+                    onClick={handleAddWebPageFeed}
+                    disabled={addFeedMutation.isPending || !preview?.itemCount}
+                    data-testid="button-submit-feed"
+                  >
+                    {addFeedMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Rss className="h-4 w-4 mr-2" />
+                    )}
+                    Add Web Page Feed
+                  </Button>
+                </>
+              ) : showDiscovery && discoveredFeeds.length > 0 ? (
                 <Button
                   type="button"
                   onClick={handleAddSelectedFeed}
@@ -2,7 +2,9 @@ import { useState, useRef } from "react";
 import { Link, useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { feedIconUrl } from "@/lib/image-proxy";
 import { useToast } from "@/hooks/use-toast";
+import { NewsletterInboxesDialog } from "@/components/newsletter-inboxes-dialog";
 import {
   Sidebar,
   SidebarContent,
@@ -25,12 +27,14 @@ import {
   Inbox,
   BookOpen,
   Bookmark,
+  Headphones,
   ChevronRight,
   Settings,
   Folder,
   AlertTriangle,
   Download,
   Upload,
+  Mail,
 } from "lucide-react";
 import {
   Tooltip,
@@ -42,8 +46,8 @@ import type { Category, FeedWithCategory } from "@shared/schema";
 interface AppSidebarProps {
   onAddFeed: () => void;
   selectedFeedId: string | null;
-  selectedFilter: "all" | "unread" | "bookmarked";
-  onFilterChange: (filter: "all" | "unread" | "bookmarked") => void;
+  selectedFilter: "all" | "unread" | "bookmarked" | "podcasts";
+  onFilterChange: (filter: "all" | "unread" | "bookmarked" | "podcasts") => void;
   onFeedSelect: (feedId: string | null) => void;
 }
 
@@ -56,6 +60,7 @@ export function AppSidebar({
 }: AppSidebarProps) {
   const [location] = useLocation();
   const [openCategories, setOpenCategories] = useState<Record<string, boolean>>({});
+  const [newslettersOpen, setNewslettersOpen] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
@@ -203,6 +208,19 @@ export function AppSidebar({
                   )}
                 </SidebarMenuButton>
               </SidebarMenuItem>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => {
+                    onFeedSelect(null);
+                    onFilterChange("podcasts");
+                  }}
+                  isActive={selectedFilter === "podcasts" && !selectedFeedId}
+                  data-testid="nav-podcasts"
+                >
+                  <Headphones className="h-4 w-4" />
+                  <span>Podcasts</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
@@ -264,7 +282,7 @@ export function AppSidebar({
                                   <div className="relative">
                                     {feed.favicon ? (
                                       <img 
-                                        src={feed.favicon} 
+                                        src={feedIconUrl(feed)} 
                                         alt="" 
                                         className="h-4 w-4 rounded"
                                         onError={(e) => {
@@ -288,6 +306,7 @@ export function AppSidebar({
                                       </TooltipTrigger>
                                       <TooltipContent>
                                         <p>Feed has failed to update {feed.errorCount} times</p>
+                                        {feed.lastError && <p className="text-xs text-muted-foreground">{feed.lastError}</p>}
                                       </TooltipContent>
                                     </Tooltip>
                                   ) : feed.unreadCount && feed.unreadCount > 0 ? (
@@ -317,7 +336,7 @@ export function AppSidebar({
                           <div className="relative">
                             {feed.favicon ? (
                               <img 
-                                src={feed.favicon} 
+                                src={feedIconUrl(feed)} 
                                 alt="" 
                                 className="h-4 w-4 rounded"
                                 onError={(e) => {
@@ -341,6 +360,7 @@ export function AppSidebar({
                               </TooltipTrigger>
                               <TooltipContent>
                                 <p>Feed has failed to update {feed.errorCount} times</p>
+                                {feed.lastError && <p className="text-xs text-muted-foreground">{feed.lastError}</p>}
                               </TooltipContent>
                             </Tooltip>
                           ) : feed.unreadCount && feed.unreadCount > 0 ? (
@@ -413,13 +433,22 @@ export function AppSidebar({
         </div>
         <SidebarMenu>
           <SidebarMenuItem>
-            <SidebarMenuButton data-testid="nav-settings">
-              <Settings className="h-4 w-4" />
-              <span>Settings</span>
+            <SidebarMenuButton onClick={() => setNewslettersOpen(true)} data-testid="nav-newsletters">
+              <Mail className="h-4 w-4" />
+              <span>Newsletters</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton asChild data-testid="nav-settings">
+              <Link href="/settings">
+                <Settings className="h-4 w-4" />
+                <span>Settings</span>
+              </Link>
             </SidebarMenuButton>
           </SidebarMenuItem>
         </SidebarMenu>
       </SidebarFooter>
+      <NewsletterInboxesDialog open={newslettersOpen} onOpenChange={setNewslettersOpen} />
     </Sidebar>
   );
 }
@@ -1,11 +1,13 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { proxyImageUrl, feedIconUrl } from "@/lib/image-proxy";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import {
   Circle,
   CircleDot,
@@ -18,7 +20,7 @@ import type { ArticleWithFeed } from "@shared/schema";
 
 interface ArticleListProps {
   selectedFeedId: string | null;
-  selectedFilter: "all" | "unread" | "bookmarked";
+  selectedFilter: "all" | "unread" | "bookmarked" | "podcasts";
   searchQuery: string;
   selectedArticleId: string | null;
   onArticleSelect: (articleId: string) => void;
@@ -37,6 +39,7 @@ export function ArticleList({
   if (selectedFeedId) queryParams.set("feedId", selectedFeedId);
   if (selectedFilter === "unread") queryParams.set("unread", "true");
   if (selectedFilter === "bookmarked") queryParams.set("bookmarked", "true");
+  if (selectedFilter === "podcasts") queryParams.set("podcasts", "true");
   if (searchQuery) queryParams.set("search", searchQuery);
 
   const { data: articles = [], isLoading } = useQuery<ArticleWithFeed[]>({
@@ -101,6 +104,8 @@ export function ArticleList({
               ? "You've read all your articles! Check back later for new content."
               : selectedFilter === "bookmarked"
               ? "You haven't bookmarked any articles yet."
+              : selectedFilter === "podcasts"
+              ? "No podcast episodes yet. Add a podcast feed to listen here."
               : searchQuery
               ? "No articles match your search. Try different keywords."
               : "Add some RSS feeds to start reading articles."}
@@ -180,7 +185,7 @@ function ArticleCard({
 
         {article.imageUrl && (
           <img
-            src={article.imageUrl}
+            src={proxyImageUrl(article.imageUrl, { width: 160, base: article.url })}
             alt=""
             className="h-12 w-12 rounded object-cover flex-shrink-0"
             onError={(e) => {
@@ -202,6 +207,8 @@ function ArticleCard({
               {article.feed.title}
             </span>
             <span className="text-xs text-muted-foreground">{publishedDate}</span>
+            {article.updatedAt && <UpdatedBadge updatedAt={article.updatedAt} />}
+            {article.coveredBy && article.coveredBy.length > 0 && <CoverageBadge feeds={article.coveredBy} />}
           </div>
         </div>
 
@@ -230,6 +237,7 @@ function ArticleCard({
               e.stopPropagation();
               window.open(article.url, "_blank");
             }}
+            disabled={!article.url}
             data-testid={`button-open-${article.id}`}
           >
             <ExternalLink className="h-4 w-4" />
@@ -250,7 +258,7 @@ function ArticleCard({
       {article.imageUrl && (
         <div className="aspect-video relative overflow-hidden">
           <img
-            src={article.imageUrl}
+            src={proxyImageUrl(article.imageUrl, { width: 640, base: article.url })}
             alt=""
             className="w-full h-full object-cover"
             onError={(e) => {
@@ -295,7 +303,7 @@ function ArticleCard({
           <div className="flex items-center gap-2 min-w-0">
             {article.feed.favicon ? (
               <img
-                src={article.feed.favicon}
+                src={feedIconUrl(article.feed)}
                 alt=""
                 className="h-4 w-4 rounded flex-shrink-0"
                 onError={(e) => {
@@ -311,6 +319,8 @@ function ArticleCard({
             <span className="text-xs text-muted-foreground flex-shrink-0">
               {publishedDate}
             </span>
+            {article.updatedAt && <UpdatedBadge updatedAt={article.updatedAt} />}
+            {article.coveredBy && article.coveredBy.length > 0 && <CoverageBadge feeds={article.coveredBy} />}
           </div>
 
           <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -338,6 +348,7 @@ function ArticleCard({
                 e.stopPropagation();
                 window.open(article.url, "_blank");
               }}
+              disabled={!article.url}
               data-testid={`button-open-${article.id}`}
             >
               <ExternalLink className="h-4 w-4" />
@@ -349,6 +360,38 @@ function ArticleCard({
   );
 }
 
+// Other feeds that carried the same story, collapsed into this entry
+function CoverageBadge({ feeds }: { feeds: NonNullable<ArticleWithFeed["coveredBy"]> }) {
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge variant="secondary" className="text-xs flex-shrink-0" data-testid="badge-covered-by">
+          Also covered by {feeds.length} feed{feeds.length > 1 ? "s" : ""}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {feeds.map((feed) => (
+          <p key={feed.id}>{feed.title}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
+
+// Shown on articles the publisher has edited since we first saw them
+function UpdatedBadge({ updatedAt }: { updatedAt: Date | string }) {
+  return (
+    <Badge
+      variant="outline"
+      className="text-xs flex-shrink-0"
+      title={`Updated ${formatDistanceToNow(new Date(updatedAt), { addSuffix: true })}`}
+      data-testid="badge-updated"
+    >
+      Updated
+    </Badge>
+  );
+}
+
 function ArticleCardSkeleton({ viewMode }: { viewMode: "card" | "list" }) {
   if (viewMode === "list") {
     return (
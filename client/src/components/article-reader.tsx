@@ -1,8 +1,9 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { formatDistanceToNow, format } from "date-fns";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import DOMPurify from "dompurify";
+import { proxyImageUrl, proxySrcset, feedIconUrl } from "@/lib/image-proxy";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -20,6 +21,8 @@ import {
   Check,
   FileText,
   Loader2,
+  Play,
+  RefreshCw,
 } from "lucide-react";
 import { SiX, SiLinkedin, SiFacebook } from "react-icons/si";
 import { Mail } from "lucide-react";
@@ -31,17 +34,44 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { ArticleRevisions } from "@/components/article-revisions";
 import type { ArticleWithFeed } from "@shared/schema";
 
 interface ArticleReaderProps {
   articleId: string;
   onClose: () => void;
+  onPlayEpisode?: (article: ArticleWithFeed) => void;
 }
 
-export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
+function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  return h > 0 ? `${h} hr ${m} min` : `${Math.max(m, 1)} min`;
+}
+
+// Video id of a YouTube watch, short or youtu.be link
+function youtubeVideoId(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    const host = parsed.hostname.replace(/^(www\.|m\.)/, "");
+    if (host === "youtu.be") return parsed.pathname.slice(1) || null;
+    if (host !== "youtube.com") return null;
+    if (parsed.pathname === "/watch") return parsed.searchParams.get("v");
+    const match = parsed.pathname.match(/^\/(?:shorts|embed|live)\/([\w-]+)/);
+    return match ? match[1] : null;
+  } catch {
+    return null;
+  }
+}
+
+export function ArticleReader({ articleId, onClose, onPlayEpisode }: ArticleReaderProps) {
   const { toast } = useToast();
-  const [extractedContent, setExtractedContent] = useState<string | null>(null);
-  const [isExtracting, setIsExtracting] = useState(false);
+  // Which text to show when both the feed's content and the full article are available
+  const [contentView, setContentView] = useState<"feed" | "full">("full");
+
+  useEffect(() => {
+    setContentView("full");
+  }, [articleId]);
   
   const { data: article, isLoading } = useQuery<ArticleWithFeed>({
     queryKey: ["/api/articles", articleId],
@@ -113,43 +143,61 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
     }
   };
 
-  const handleExtractContent = async () => {
-    if (!article) return;
-    setIsExtracting(true);
-    try {
-      const response = await fetch(`/api/extract?url=${encodeURIComponent(article.url)}`);
-      if (!response.ok) throw new Error("Failed to extract content");
-      const data = await response.json();
-      if (data.content) {
-        setExtractedContent(data.content);
-        toast({
-          title: "Full article loaded",
-          description: "The complete article content has been extracted.",
-        });
-      } else {
-        toast({
-          title: "Could not extract content",
-          description: "The original article may be behind a paywall or restricted.",
-          variant: "destructive",
-        });
-      }
-    } catch (error) {
+  // Extraction results are stored on the article, so this only runs on
+  // request or to refresh a stale copy
+  const extractMutation = useMutation({
+    mutationFn: async (): Promise<ArticleWithFeed> => {
+      const response = await apiRequest("POST", `/api/articles/${articleId}/extract`);
+      return response.json();
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/articles", articleId], updated);
+      setContentView("full");
       toast({
-        title: "Extraction failed",
-        description: "Could not load the full article content.",
-        variant: "destructive",
+        title: "Full article loaded",
+        description: "The complete article content has been extracted.",
       });
-    } finally {
-      setIsExtracting(false);
-    }
-  };
+    },
+    onError: (error: Error) => {
+      toast(error.message.startsWith("422")
+        ? {
+            title: "Could not extract content",
+            description: "The original article may be behind a paywall or restricted.",
+            variant: "destructive",
+          }
+        : error.message.startsWith("429")
+        ? {
+            title: "Too many requests",
+            description: "This site was asked for several articles just now. Try again in a moment.",
+            variant: "destructive",
+          }
+        : {
+            title: "Extraction failed",
+            description: "Could not load the full article content.",
+            variant: "destructive",
+          });
+    },
+  });
+  const isExtracting = extractMutation.isPending;
+  const handleExtractContent = () => extractMutation.mutate();
 
-  // Sanitize HTML content to prevent XSS attacks
+  // Sanitize HTML content to prevent XSS attacks, loading its images through the proxy
   const sanitizeHtml = (html: string) => {
-    return DOMPurify.sanitize(html, {
-      USE_PROFILES: { html: true },
-      ADD_ATTR: ['target'],
+    DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+      if (node.tagName !== "IMG" && node.tagName !== "SOURCE") return;
+      const src = node.getAttribute("src");
+      if (src) node.setAttribute("src", proxyImageUrl(src, { base: article?.url }));
+      const srcset = node.getAttribute("srcset");
+      if (srcset) node.setAttribute("srcset", proxySrcset(srcset, article?.url));
     });
+    try {
+      return DOMPurify.sanitize(html, {
+        USE_PROFILES: { html: true },
+        ADD_ATTR: ['target'],
+      });
+    } finally {
+      DOMPurify.removeHook("afterSanitizeAttributes");
+    }
   };
 
   if (isLoading) {
@@ -192,6 +240,10 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
     );
   }
 
+  const videoId = youtubeVideoId(article.url);
+  // Extracted on request, or at refresh for feeds that fetch full content
+  const fullContent = article.extractedContent;
+
   const publishedDate = article.publishedAt
     ? format(new Date(article.publishedAt), "MMMM d, yyyy 'at' h:mm a")
     : null;
@@ -202,7 +254,7 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
         <div className="flex items-center gap-2 min-w-0">
           {article.feed.favicon ? (
             <img
-              src={article.feed.favicon}
+              src={feedIconUrl(article.feed)}
               alt=""
               className="h-5 w-5 rounded flex-shrink-0"
               onError={(e) => {
@@ -279,6 +331,7 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
             variant="ghost"
             size="icon"
             onClick={() => window.open(article.url, "_blank")}
+            disabled={!article.url}
             data-testid="button-open-original"
           >
             <ExternalLink className="h-4 w-4" />
@@ -309,13 +362,51 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
               {publishedDate && (
                 <span>{publishedDate}</span>
               )}
+              {article.duration && (
+                <span>{formatDuration(article.duration)}</span>
+              )}
             </div>
+
+            {article.enclosureUrl && article.enclosureType?.startsWith("audio/") && onPlayEpisode && (
+              <Button
+                className="mt-6"
+                onClick={() => onPlayEpisode(article)}
+                data-testid="button-play-episode"
+              >
+                <Play className="h-4 w-4 mr-2" />
+                {article.playbackPosition ? "Resume episode" : "Play episode"}
+              </Button>
+            )}
+            {article.enclosureUrl && article.enclosureType?.startsWith("video/") && (
+              <video
+                src={article.enclosureUrl}
+                controls
+                preload="metadata"
+                className="mt-6 w-full rounded-lg"
+                data-testid="video-enclosure"
+              />
+            )}
           </header>
 
-          {article.imageUrl && (
+          <ArticleRevisions article={article} />
+
+          {videoId ? (
+            <div className="mb-8 rounded-lg overflow-hidden aspect-video bg-muted">
+              {/* youtube-nocookie doesn't set tracking cookies until the video is played */}
+              <iframe
+                src={`https://www.youtube-nocookie.com/embed/${encodeURIComponent(videoId)}`}
+                title={article.title}
+                className="w-full h-full"
+                allow="accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture"
+                referrerPolicy="strict-origin-when-cross-origin"
+                allowFullScreen
+                data-testid="embed-youtube"
+              />
+            </div>
+          ) : article.imageUrl && (
             <div className="mb-8 rounded-lg overflow-hidden">
               <img
-                src={article.imageUrl}
+                src={proxyImageUrl(article.imageUrl, { base: article.url })}
                 alt=""
                 className="w-full h-auto"
                 onError={(e) => {
@@ -329,45 +420,97 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
             prose-img:rounded-xl prose-img:shadow-lg prose-img:mx-auto
             prose-headings:font-bold prose-headings:tracking-tight
             prose-a:text-primary prose-a:no-underline hover:prose-a:underline">
-            {extractedContent ? (
-              <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(extractedContent) }} />
-            ) : article.content ? (
+            {fullContent && (article.content || article.summary) && (
+              <div className="not-prose mb-6 inline-flex items-center gap-1 border rounded-md p-0.5" data-testid="toggle-content-view">
+                <Button
+                  variant={contentView === "feed" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setContentView("feed")}
+                  data-testid="button-view-feed-content"
+                >
+                  <Rss className="h-3.5 w-3.5 mr-1.5" />
+                  Feed
+                </Button>
+                <Button
+                  variant={contentView === "full" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7"
+                  onClick={() => setContentView("full")}
+                  data-testid="button-view-full-content"
+                >
+                  <FileText className="h-3.5 w-3.5 mr-1.5" />
+                  Full article
+                </Button>
+              </div>
+            )}
+            {fullContent && contentView === "full" ? (
               <>
-                <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(article.content) }} />
-                <div className="mt-6 pt-4 border-t not-prose">
+                <div className="not-prose mb-6 flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground" data-testid="text-extraction-info">
+                  {article.extractedByline && !article.author && <span>By {article.extractedByline}</span>}
+                  {article.extractedSiteName && <span>{article.extractedSiteName}</span>}
+                  {article.extractedAt && (
+                    <span>Extracted {formatDistanceToNow(new Date(article.extractedAt), { addSuffix: true })}</span>
+                  )}
                   <Button
-                    variant="outline"
+                    variant="ghost"
+                    size="sm"
+                    className="h-7"
                     onClick={handleExtractContent}
                     disabled={isExtracting}
-                    data-testid="button-extract-content"
+                    data-testid="button-reextract-content"
                   >
-                    {isExtracting ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
-                      <FileText className="h-4 w-4 mr-2" />
-                    )}
-                    {isExtracting ? "Loading..." : "Load Full Article"}
+                    <RefreshCw className={`h-3.5 w-3.5 mr-1.5 ${isExtracting ? "animate-spin" : ""}`} />
+                    Re-extract
                   </Button>
                 </div>
+                <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(fullContent) }} />
+              </>
+            ) : article.content && videoId ? (
+              // A video's description is all there is; the watch page has nothing to extract
+              <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(article.content) }} />
+            ) : article.content ? (
+              <>
+                <div dangerouslySetInnerHTML={{ __html: sanitizeHtml(article.content) }} />
+                {/* Newsletters without a "view in browser" link have no page to load */}
+                {!fullContent && article.url && (
+                  <div className="mt-6 pt-4 border-t not-prose">
+                    <Button
+                      variant="outline"
+                      onClick={handleExtractContent}
+                      disabled={isExtracting}
+                      data-testid="button-extract-content"
+                    >
+                      {isExtracting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4 mr-2" />
+                      )}
+                      {isExtracting ? "Loading..." : "Load Full Article"}
+                    </Button>
+                  </div>
+                )}
               </>
             ) : article.summary ? (
               <>
                 <p className="text-lg leading-relaxed">{article.summary}</p>
-                <div className="mt-6 pt-4 border-t not-prose">
-                  <Button
-                    variant="outline"
-                    onClick={handleExtractContent}
-                    disabled={isExtracting}
-                    data-testid="button-extract-content"
-                  >
-                    {isExtracting ? (
-                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    ) : (
-                      <FileText className="h-4 w-4 mr-2" />
-                    )}
-                    {isExtracting ? "Loading..." : "Load Full Article"}
-                  </Button>
-                </div>
+                {!fullContent && (
+                  <div className="mt-6 pt-4 border-t not-prose">
+                    <Button
+                      variant="outline"
+                      onClick={handleExtractContent}
+                      disabled={isExtracting}
+                      data-testid="button-extract-content"
+                    >
+                      {isExtracting ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <FileText className="h-4 w-4 mr-2" />
+                      )}
+                      {isExtracting ? "Loading..." : "Load Full Article"}
+                    </Button>
+                  </div>
+                )}
               </>
             ) : (
               <div className="text-center py-8">
@@ -390,6 +533,7 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
                   </Button>
                   <Button
                     onClick={() => window.open(article.url, "_blank")}
+                    disabled={!article.url}
                     data-testid="button-read-original"
                   >
                     <ExternalLink className="h-4 w-4 mr-2" />
@@ -421,6 +565,7 @@ export function ArticleReader({ articleId, onClose }: ArticleReaderProps) {
             </Button>
             <Button
               onClick={() => window.open(article.url, "_blank")}
+              disabled={!article.url}
             >
               <ExternalLink className="h-4 w-4 mr-2" />
               View Original
@@ -0,0 +1,111 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { diffWords } from "diff";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { History, ChevronRight } from "lucide-react";
+import type { ArticleRevision, ArticleWithFeed } from "@shared/schema";
+
+// Visible text of an HTML fragment, one paragraph per line
+function htmlToText(html: string | null): string {
+  if (!html) return "";
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  doc.querySelectorAll("br").forEach((br) => br.replaceWith("\n"));
+  doc.querySelectorAll("p, div, li, h1, h2, h3, h4, h5, h6, blockquote").forEach((block) => {
+    block.append("\n\n");
+  });
+  return (doc.body.textContent || "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function WordDiff({ before, after }: { before: string; after: string }) {
+  const changes = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <p className="whitespace-pre-wrap">
+      {changes.map((change, index) =>
+        change.added ? (
+          <ins key={index} className="bg-green-500/20 text-green-700 dark:text-green-400 no-underline">
+            {change.value}
+          </ins>
+        ) : change.removed ? (
+          <del key={index} className="bg-red-500/20 text-red-700 dark:text-red-400">
+            {change.value}
+          </del>
+        ) : (
+          <span key={index}>{change.value}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+interface ArticleRevisionsProps {
+  article: ArticleWithFeed;
+}
+
+// Lets the reader compare the current version of an edited article with earlier ones
+export function ArticleRevisions({ article }: ArticleRevisionsProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+
+  const { data: revisions = [] } = useQuery<ArticleRevision[]>({
+    queryKey: ["/api/articles", article.id, "revisions"],
+    enabled: Boolean(article.updatedAt),
+  });
+
+  if (!article.updatedAt || revisions.length === 0) return null;
+
+  const revision = revisions.find((r) => r.id === selectedRevisionId) || revisions[0];
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-8 rounded-lg border" data-testid="article-revisions">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" className="w-full justify-start gap-2" data-testid="button-toggle-revisions">
+          <ChevronRight className={`h-4 w-4 transition-transform ${open ? "rotate-90" : ""}`} />
+          <History className="h-4 w-4" />
+          Updated {formatDistanceToNow(new Date(article.updatedAt), { addSuffix: true })}
+          <span className="text-muted-foreground font-normal">
+            · {revisions.length} earlier version{revisions.length > 1 ? "s" : ""}
+          </span>
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-4 pb-4 space-y-4">
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Compare current version with</span>
+          <Select value={revision.id} onValueChange={setSelectedRevisionId}>
+            <SelectTrigger className="w-56" data-testid="select-revision">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((r) => (
+                <SelectItem key={r.id} value={r.id}>
+                  Version replaced {format(new Date(r.revisedAt), "MMM d, h:mm a")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {revision.title !== article.title && (
+          <div className="font-semibold">
+            <WordDiff before={revision.title} after={article.title} />
+          </div>
+        )}
+        <div className="text-sm leading-relaxed max-h-96 overflow-y-auto">
+          <WordDiff
+            before={htmlToText(revision.content) || revision.summary || ""}
+            after={htmlToText(article.content) || article.summary || ""}
+          />
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
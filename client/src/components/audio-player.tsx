@@ -0,0 +1,207 @@
+import { useState, useRef, useEffect, useCallback } from "react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { proxyImageUrl, feedIconUrl } from "@/lib/image-proxy";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Play, Pause, RotateCcw, RotateCw, X, Rss } from "lucide-react";
+import type { ArticleWithFeed } from "@shared/schema";
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+const PLAYBACK_RATE_KEY = "modernfeed-playback-rate";
+
+// How often the current position is saved while playing
+const SAVE_INTERVAL_MS = 15000;
+
+function formatTime(seconds: number): string {
+  if (!Number.isFinite(seconds) || seconds < 0) return "0:00";
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return h > 0 ? `${h}:${m.toString().padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+interface AudioPlayerProps {
+  episode: ArticleWithFeed;
+  onClose: () => void;
+}
+
+export function AudioPlayer({ episode, onClose }: AudioPlayerProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(episode.playbackPosition || 0);
+  const [duration, setDuration] = useState(episode.duration || 0);
+  const [playbackRate, setPlaybackRate] = useState(() => {
+    const saved = parseFloat(localStorage.getItem(PLAYBACK_RATE_KEY) || "1");
+    return PLAYBACK_RATES.includes(saved) ? saved : 1;
+  });
+
+  const savePosition = useCallback(
+    (position: number, extra: { isRead?: boolean } = {}) => {
+      apiRequest("PATCH", `/api/articles/${episode.id}`, {
+        playbackPosition: Math.floor(position),
+        ...extra,
+      }).catch(() => {
+        // Losing a position update isn't worth interrupting playback for
+      });
+    },
+    [episode.id]
+  );
+
+  // The saved position is only read when an episode loads; refetches during
+  // playback bring back positions this player saved itself
+  const resumeAtRef = useRef(episode.playbackPosition || 0);
+  resumeAtRef.current = episode.playbackPosition || 0;
+
+  // Start each episode where it was left off
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+
+    const handleLoaded = () => {
+      const resumeAt = resumeAtRef.current;
+      if (resumeAt > 0 && resumeAt < audio.duration - 5) {
+        audio.currentTime = resumeAt;
+      }
+      void audio.play().catch(() => setIsPlaying(false));
+    };
+
+    audio.addEventListener("loadedmetadata", handleLoaded, { once: true });
+    return () => {
+      audio.removeEventListener("loadedmetadata", handleLoaded);
+      savePosition(audio.currentTime);
+    };
+  }, [episode.id, savePosition]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = setInterval(() => {
+      if (audioRef.current) savePosition(audioRef.current.currentTime);
+    }, SAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isPlaying, savePosition]);
+
+  // The default rate carries over to each new episode's source
+  useEffect(() => {
+    if (audioRef.current) {
+      audioRef.current.defaultPlaybackRate = playbackRate;
+      audioRef.current.playbackRate = playbackRate;
+    }
+    localStorage.setItem(PLAYBACK_RATE_KEY, String(playbackRate));
+  }, [playbackRate]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      void audio.play();
+    } else {
+      audio.pause();
+    }
+  };
+
+  const seekBy = (seconds: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.currentTime = Math.min(Math.max(0, audio.currentTime + seconds), audio.duration || Infinity);
+  };
+
+  const handleEnded = () => {
+    setIsPlaying(false);
+    savePosition(0, { isRead: true });
+    queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/articles/stats"] });
+  };
+
+  return (
+    <div className="flex items-center gap-3 border-t bg-card px-4 py-2" data-testid="audio-player">
+      <audio
+        ref={audioRef}
+        src={episode.enclosureUrl || undefined}
+        preload="metadata"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => {
+          setIsPlaying(false);
+          if (audioRef.current) savePosition(audioRef.current.currentTime);
+        }}
+        onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+        onDurationChange={(e) => {
+          if (Number.isFinite(e.currentTarget.duration)) setDuration(e.currentTarget.duration);
+        }}
+        onEnded={handleEnded}
+      />
+
+      <div className="flex items-center gap-2 min-w-0 w-56 flex-shrink-0">
+        {episode.imageUrl || episode.feed.favicon ? (
+          <img
+            src={episode.imageUrl ? proxyImageUrl(episode.imageUrl, { width: 160, base: episode.url }) : feedIconUrl(episode.feed)}
+            alt=""
+            className="h-9 w-9 rounded object-cover flex-shrink-0"
+          />
+        ) : (
+          <Rss className="h-5 w-5 text-muted-foreground flex-shrink-0" />
+        )}
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{episode.title}</p>
+          <p className="text-xs text-muted-foreground truncate">{episode.feed.title}</p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <Button variant="ghost" size="icon" onClick={() => seekBy(-15)} data-testid="button-player-back">
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={togglePlay} data-testid="button-player-toggle">
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => seekBy(30)} data-testid="button-player-forward">
+          <RotateCw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-1 items-center gap-2 min-w-0">
+        <span className="text-xs text-muted-foreground tabular-nums">{formatTime(currentTime)}</span>
+        <Slider
+          value={[currentTime]}
+          max={duration || 1}
+          step={1}
+          onValueChange={([value]) => {
+            if (audioRef.current) audioRef.current.currentTime = value;
+            setCurrentTime(value);
+          }}
+          data-testid="slider-player-progress"
+        />
+        <span className="text-xs text-muted-foreground tabular-nums">{formatTime(duration)}</span>
+      </div>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="w-14" data-testid="button-player-speed">
+            {playbackRate}x
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {PLAYBACK_RATES.map((rate) => (
+            <DropdownMenuItem
+              key={rate}
+              onClick={() => setPlaybackRate(rate)}
+              data-testid={`player-speed-${rate}`}
+            >
+              {rate}x
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-player-close">
+        <X className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
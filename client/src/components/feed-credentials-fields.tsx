@@ -0,0 +1,143 @@
+import type { FeedCredentials } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+
+export const emptyCredentials: FeedCredentials = {
+  authType: "none",
+  username: "",
+  password: "",
+  token: "",
+  headers: [],
+};
+
+// Whether the credentials would send anything with the feed request
+export function hasCredentials(credentials: FeedCredentials): boolean {
+  return credentials.authType !== "none" || credentials.headers.some((header) => header.name.trim());
+}
+
+// Drop header rows left without a name
+export function cleanCredentials(credentials: FeedCredentials): FeedCredentials {
+  return {
+    ...credentials,
+    headers: credentials.headers
+      .map((header) => ({ name: header.name.trim(), value: header.value }))
+      .filter((header) => header.name),
+  };
+}
+
+interface FeedCredentialsFieldsProps {
+  value: FeedCredentials;
+  onChange: (value: FeedCredentials) => void;
+}
+
+export function FeedCredentialsFields({ value, onChange }: FeedCredentialsFieldsProps) {
+  const update = (changes: Partial<FeedCredentials>) => onChange({ ...value, ...changes });
+
+  const updateHeader = (index: number, changes: Partial<FeedCredentials["headers"][number]>) => {
+    update({
+      headers: value.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label htmlFor="feed-auth-type">Authentication</Label>
+        <Select
+          value={value.authType}
+          onValueChange={(authType) => update({ authType: authType as FeedCredentials["authType"] })}
+        >
+          <SelectTrigger id="feed-auth-type" data-testid="select-auth-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="basic">Username and password (Basic)</SelectItem>
+            <SelectItem value="bearer">Bearer token</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.authType === "basic" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            placeholder="Username"
+            autoComplete="off"
+            value={value.username}
+            onChange={(e) => update({ username: e.target.value })}
+            data-testid="input-auth-username"
+          />
+          <Input
+            type="password"
+            placeholder="Password"
+            autoComplete="new-password"
+            value={value.password}
+            onChange={(e) => update({ password: e.target.value })}
+            data-testid="input-auth-password"
+          />
+        </div>
+      )}
+
+      {value.authType === "bearer" && (
+        <Input
+          type="password"
+          placeholder="Token"
+          autoComplete="off"
+          value={value.token}
+          onChange={(e) => update({ token: e.target.value })}
+          data-testid="input-auth-token"
+        />
+      )}
+
+      <div className="space-y-1.5">
+        <Label>Extra request headers</Label>
+        {value.headers.map((header, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="Header"
+              value={header.name}
+              onChange={(e) => updateHeader(index, { name: e.target.value })}
+              data-testid={`input-header-name-${index}`}
+            />
+            <Input
+              type="password"
+              placeholder="Value"
+              autoComplete="off"
+              value={header.value}
+              onChange={(e) => updateHeader(index, { value: e.target.value })}
+              data-testid={`input-header-value-${index}`}
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => update({ headers: value.headers.filter((_, i) => i !== index) })}
+              data-testid={`button-remove-header-${index}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => update({ headers: [...value.headers, { name: "", value: "" }] })}
+          data-testid="button-add-header"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add header
+        </Button>
+      </div>
+    </div>
+  );
+}
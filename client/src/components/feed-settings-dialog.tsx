@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FeedCredentials, PublicFeed, RetentionPolicy } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  FeedCredentialsFields,
+  emptyCredentials,
+  hasCredentials,
+  cleanCredentials,
+} from "@/components/feed-credentials-fields";
+import { RetentionFields, emptyRetentionPolicy } from "@/components/retention-fields";
+import { Loader2, Lock, Settings } from "lucide-react";
+
+const AUTH_TYPE_LABELS: Record<string, string> = {
+  basic: "a username and password",
+  bearer: "a bearer token",
+  headers: "custom request headers",
+};
+
+interface FeedSettingsDialogProps {
+  feed: PublicFeed;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function FeedSettingsDialog({ feed, open, onOpenChange }: FeedSettingsDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState(feed.title);
+  const [fetchFullContent, setFetchFullContent] = useState(!!feed.fetchFullContent);
+  // Stored credentials are never sent back, so they can only be replaced or removed
+  const [editingCredentials, setEditingCredentials] = useState(false);
+  const [credentials, setCredentials] = useState<FeedCredentials>(emptyCredentials);
+  // null follows the global retention setting
+  const [retention, setRetention] = useState<RetentionPolicy | null>(feed.retention);
+  // null takes the server's default number of items per fetch
+  const [itemLimit, setItemLimit] = useState<number | null>(feed.itemLimit);
+
+  useEffect(() => {
+    if (open) {
+      setTitle(feed.title);
+      setFetchFullContent(!!feed.fetchFullContent);
+      setEditingCredentials(false);
+      setCredentials(emptyCredentials);
+      setRetention(feed.retention);
+      setItemLimit(feed.itemLimit);
+    }
+  }, [open, feed.id, feed.title, feed.fetchFullContent, feed.retention, feed.itemLimit]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (body: {
+      title: string;
+      fetchFullContent: boolean;
+      retention: RetentionPolicy | null;
+      itemLimit: number | null;
+      credentials?: FeedCredentials | null;
+    }) => {
+      await apiRequest("PATCH", `/api/feeds/${feed.id}`, body);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      toast({ title: "Feed settings saved" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save feed settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      title: title.trim() || feed.title,
+      fetchFullContent,
+      retention,
+      itemLimit,
+      credentials: editingCredentials
+        ? (hasCredentials(credentials) ? cleanCredentials(credentials) : null)
+        : undefined,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5" />
+            Feed settings
+          </DialogTitle>
+          <DialogDescription className="break-all">{feed.url}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="feed-settings-title">Title</Label>
+            <Input
+              id="feed-settings-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              data-testid="input-feed-title"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="feed-settings-full-content">Fetch full articles</Label>
+              <p className="text-xs text-muted-foreground">
+                Download each new article's page when the feed refreshes, for feeds that only publish teasers.
+              </p>
+            </div>
+            <Switch
+              id="feed-settings-full-content"
+              checked={fetchFullContent}
+              onCheckedChange={setFetchFullContent}
+              data-testid="switch-fetch-full-content"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div className="space-y-0.5">
+              <Label htmlFor="feed-settings-item-limit">Items per fetch</Label>
+              <p className="text-xs text-muted-foreground">
+                The most items taken from the feed each time it refreshes. Older posts can be imported from its diagnostics page.
+              </p>
+            </div>
+            <Input
+              id="feed-settings-item-limit"
+              type="number"
+              min={1}
+              max={1000}
+              className="w-24"
+              placeholder="50"
+              value={itemLimit ?? ""}
+              onChange={(e) => {
+                const number = parseInt(e.target.value, 10);
+                setItemLimit(Number.isFinite(number) && number > 0 ? Math.min(number, 1000) : null);
+              }}
+              data-testid="input-feed-item-limit"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="feed-settings-retention">Own retention limits</Label>
+                <p className="text-xs text-muted-foreground">
+                  Otherwise the feed's old articles are deleted by the limits on the settings page.
+                </p>
+              </div>
+              <Switch
+                id="feed-settings-retention"
+                checked={retention !== null}
+                onCheckedChange={(checked) => setRetention(checked ? emptyRetentionPolicy : null)}
+                data-testid="switch-feed-retention"
+              />
+            </div>
+            {retention && <RetentionFields value={retention} onChange={setRetention} idPrefix="feed-retention" />}
+          </div>
+
+          {editingCredentials ? (
+            <FeedCredentialsFields value={credentials} onChange={setCredentials} />
+          ) : (
+            <div className="flex items-center justify-between gap-2 rounded-md border p-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Lock className="h-4 w-4 text-muted-foreground" />
+                {feed.authType
+                  ? `Fetched with ${AUTH_TYPE_LABELS[feed.authType] ?? "stored credentials"}`
+                  : "No login"}
+              </div>
+              <div className="flex gap-2">
+                {feed.authType && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateMutation.mutate({ title: title.trim() || feed.title, fetchFullContent, retention, itemLimit, credentials: null })}
+                    disabled={updateMutation.isPending}
+                    data-testid="button-remove-credentials"
+                  >
+                    Remove
+                  </Button>
+                )}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setEditingCredentials(true)}
+                  data-testid="button-edit-credentials"
+                >
+                  {feed.authType ? "Replace" : "Add login"}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            data-testid="button-cancel-feed-settings"
+          >
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleSave}
+            disabled={updateMutation.isPending}
+            data-testid="button-save-feed-settings"
+          >
+            {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
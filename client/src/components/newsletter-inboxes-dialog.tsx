@@ -0,0 +1,326 @@
+import { useState, useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Category, FeedWithCategory, NewsletterInbox } from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Copy, Loader2, Mail, Plus, Trash2, Upload, Info } from "lucide-react";
+
+// As returned by GET /api/newsletters
+interface NewsletterInboxes {
+  domain: string;
+  // Whether the server's SMTP listener is running
+  listening: boolean;
+  inboxes: (NewsletterInbox & { address: string })[];
+}
+
+// As returned by POST /api/newsletters/inboxes/:id/import
+interface NewsletterImportResult {
+  messages: number;
+  imported: number;
+  updated: number;
+  newFeeds: number;
+  failed: number;
+}
+
+const NO_CATEGORY = "none";
+
+interface NewsletterInboxesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NewsletterInboxesDialog({ open, onOpenChange }: NewsletterInboxesDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [categoryId, setCategoryId] = useState(NO_CATEGORY);
+  const [deleting, setDeleting] = useState<NewsletterInbox | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadInboxId, setUploadInboxId] = useState<string | null>(null);
+
+  const { data, isLoading } = useQuery<NewsletterInboxes>({
+    queryKey: ["/api/newsletters"],
+    enabled: open,
+  });
+
+  const { data: categories = [] } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const { data: feeds = [] } = useQuery<FeedWithCategory[]>({
+    queryKey: ["/api/feeds"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/newsletters/inboxes", {
+        name: name.trim(),
+        categoryId: categoryId === NO_CATEGORY ? null : categoryId,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      setName("");
+      setCategoryId(NO_CATEGORY);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create inbox",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (inboxId: string) => {
+      await apiRequest("DELETE", `/api/newsletters/inboxes/${inboxId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      setDeleting(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete inbox",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Files are sent as they are; the server splits mbox files into messages
+  const importMutation = useMutation({
+    mutationFn: async ({ inboxId, file }: { inboxId: string; file: File }) => {
+      const res = await fetch(`/api/newsletters/inboxes/${inboxId}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/octet-stream" },
+        body: file,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return (await res.json()) as NewsletterImportResult;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles/stats"] });
+      toast({
+        title: "Import complete",
+        description: `Imported ${result.imported} of ${result.messages} messages` +
+          (result.newFeeds > 0 ? `, ${result.newFeeds} new senders` : "") +
+          (result.failed > 0 ? `, ${result.failed} could not be read` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && uploadInboxId) {
+      importMutation.mutate({ inboxId: uploadInboxId, file });
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const handleCopy = async (address: string) => {
+    await navigator.clipboard.writeText(address);
+    toast({
+      title: "Address copied",
+      description: "Subscribe to a newsletter with it to have its issues show up here.",
+    });
+  };
+
+  const senderCount = (inboxId: string) => feeds.filter((feed) => feed.newsletterInboxId === inboxId).length;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Newsletter inboxes
+            </DialogTitle>
+            <DialogDescription>
+              Subscribe to email newsletters with an inbox address. Each sender gets a feed of its own.
+            </DialogDescription>
+          </DialogHeader>
+
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            accept=".eml,.mbox,message/rfc822,application/mbox"
+            className="hidden"
+            data-testid="input-newsletter-file"
+          />
+
+          <div className="space-y-4">
+            {data && !data.listening && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription className="text-xs">
+                  The server isn't receiving mail; set NEWSLETTER_SMTP_PORT to turn on its mail listener.
+                  Messages saved as .eml or mbox files can still be uploaded.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : data?.inboxes.length ? (
+              <ul className="rounded-md border divide-y">
+                {data.inboxes.map((inbox) => (
+                  <li key={inbox.id} className="flex items-center gap-2 p-3" data-testid={`newsletter-inbox-${inbox.id}`}>
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium truncate">{inbox.name}</div>
+                      <div className="text-xs font-mono text-muted-foreground truncate">{inbox.address}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {senderCount(inbox.id)} sender{senderCount(inbox.id) === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => handleCopy(inbox.address)}
+                      data-testid={`button-copy-inbox-${inbox.id}`}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setUploadInboxId(inbox.id);
+                        fileInputRef.current?.click();
+                      }}
+                      disabled={importMutation.isPending}
+                      data-testid={`button-upload-inbox-${inbox.id}`}
+                    >
+                      {importMutation.isPending && uploadInboxId === inbox.id ? (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Upload className="h-4 w-4" />
+                      )}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setDeleting(inbox)}
+                      data-testid={`button-delete-inbox-${inbox.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No inboxes yet.</p>
+            )}
+
+            <form
+              className="flex gap-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (name.trim()) createMutation.mutate();
+              }}
+            >
+              <Input
+                placeholder="Inbox name, e.g. Tech newsletters"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-inbox-name"
+              />
+              <Select value={categoryId} onValueChange={setCategoryId}>
+                <SelectTrigger className="w-40" data-testid="select-inbox-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CATEGORY}>No category</SelectItem>
+                  {categories.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="submit"
+                disabled={!name.trim() || createMutation.isPending}
+                data-testid="button-create-inbox"
+              >
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </form>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(isOpen) => !isOpen && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Mail sent to the address will be refused, and the inbox's feeds are deleted along with their articles.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+              data-testid="button-confirm-delete-inbox"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
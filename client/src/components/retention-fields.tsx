@@ -0,0 +1,58 @@
+import type { RetentionPolicy } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+export const emptyRetentionPolicy: RetentionPolicy = {
+  maxAgeDays: null,
+  maxItems: null,
+  keepUnreadDays: null,
+};
+
+// One-line summary, e.g. "30 days · 500 articles per feed · unread kept 90 days"
+export function describeRetention(policy: RetentionPolicy): string {
+  const limits = [
+    policy.maxAgeDays && `${policy.maxAgeDays} days`,
+    policy.maxItems && `${policy.maxItems} articles per feed`,
+  ].filter(Boolean);
+  if (limits.length === 0) return "Keep everything";
+  if (policy.keepUnreadDays) limits.push(`unread kept ${policy.keepUnreadDays} days`);
+  return limits.join(" · ");
+}
+
+const FIELDS: { key: keyof RetentionPolicy; label: string; hint: string }[] = [
+  { key: "maxAgeDays", label: "Keep for (days)", hint: "Articles published longer ago are deleted" },
+  { key: "maxItems", label: "Keep at most (articles)", hint: "Per feed; the oldest go first" },
+  { key: "keepUnreadDays", label: "Keep unread for (days)", hint: "Unread articles this recent stay regardless" },
+];
+
+interface RetentionFieldsProps {
+  value: RetentionPolicy;
+  onChange: (value: RetentionPolicy) => void;
+  idPrefix?: string;
+}
+
+// Empty fields mean no limit. Bookmarked articles are always kept.
+export function RetentionFields({ value, onChange, idPrefix = "retention" }: RetentionFieldsProps) {
+  return (
+    <div className="grid gap-3 sm:grid-cols-3">
+      {FIELDS.map((field) => (
+        <div key={field.key} className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-${field.key}`}>{field.label}</Label>
+          <Input
+            id={`${idPrefix}-${field.key}`}
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={value[field.key] ?? ""}
+            onChange={(e) => {
+              const number = parseInt(e.target.value, 10);
+              onChange({ ...value, [field.key]: Number.isFinite(number) && number > 0 ? number : null });
+            }}
+            data-testid={`input-${idPrefix}-${field.key}`}
+          />
+          <p className="text-xs text-muted-foreground">{field.hint}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
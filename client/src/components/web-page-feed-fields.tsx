@@ -0,0 +1,118 @@
+import { formatDistanceToNow } from "date-fns";
+import type { WebPageSelectors } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+
+// As returned by POST /api/feeds/web-page-preview
+export interface WebPagePreview {
+  title: string | null;
+  itemCount: number;
+  items: { title: string; link: string; date: string | null; summary: string | null }[];
+  warnings: string[];
+}
+
+export const emptySelectors: WebPageSelectors = {
+  item: "",
+  title: "",
+  link: "",
+  date: "",
+  summary: "",
+};
+
+// Drop selectors left empty so the server uses its defaults
+export function cleanSelectors(selectors: WebPageSelectors): WebPageSelectors {
+  const cleaned: WebPageSelectors = { item: selectors.item.trim() };
+  for (const key of ["title", "link", "date", "summary"] as const) {
+    const value = selectors[key]?.trim();
+    if (value) cleaned[key] = value;
+  }
+  return cleaned;
+}
+
+const OPTIONAL_FIELDS: { key: Exclude<keyof WebPageSelectors, "item">; label: string; placeholder: string }[] = [
+  { key: "title", label: "Title", placeholder: "First heading or link" },
+  { key: "link", label: "Link", placeholder: "First link" },
+  { key: "date", label: "Date", placeholder: "time" },
+  { key: "summary", label: "Summary", placeholder: "None" },
+];
+
+interface WebPageFeedFieldsProps {
+  value: WebPageSelectors;
+  onChange: (value: WebPageSelectors) => void;
+}
+
+export function WebPageFeedFields({ value, onChange }: WebPageFeedFieldsProps) {
+  const update = (changes: Partial<WebPageSelectors>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1.5">
+        <Label htmlFor="selector-item">Item selector</Label>
+        <Input
+          id="selector-item"
+          placeholder="e.g. article, .changelog-entry, li.notice"
+          value={value.item}
+          onChange={(e) => update({ item: e.target.value })}
+          className="font-mono text-sm"
+          data-testid="input-selector-item"
+        />
+        <p className="text-xs text-muted-foreground">
+          Matches each entry on the page. The fields below are looked up inside it.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {OPTIONAL_FIELDS.map((field) => (
+          <div key={field.key} className="space-y-1.5">
+            <Label htmlFor={`selector-${field.key}`}>{field.label}</Label>
+            <Input
+              id={`selector-${field.key}`}
+              placeholder={field.placeholder}
+              value={value[field.key] ?? ""}
+              onChange={(e) => update({ [field.key]: e.target.value })}
+              className="font-mono text-sm"
+              data-testid={`input-selector-${field.key}`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function WebPagePreviewList({ preview }: { preview: WebPagePreview }) {
+  return (
+    <div className="space-y-2" data-testid="web-page-preview">
+      <Label className="text-sm font-medium">
+        {preview.itemCount} item{preview.itemCount === 1 ? "" : "s"} found
+        {preview.title && <span className="font-normal text-muted-foreground"> on {preview.title}</span>}
+      </Label>
+      {preview.warnings.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-0.5 text-xs">
+              {preview.warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+      {preview.items.length > 0 && (
+        <ol className="max-h-60 overflow-auto rounded-md border divide-y text-sm">
+          {preview.items.map((item, index) => (
+            <li key={`${item.link}-${index}`} className="p-2 space-y-0.5" data-testid={`preview-item-${index}`}>
+              <div className="font-medium line-clamp-1">{item.title}</div>
+              <div className="text-xs text-muted-foreground truncate">
+                {item.date ? formatDistanceToNow(new Date(item.date), { addSuffix: true }) : "No date"} · {item.link}
+              </div>
+              {item.summary && <div className="text-xs text-muted-foreground line-clamp-2">{item.summary}</div>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
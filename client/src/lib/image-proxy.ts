@@ -0,0 +1,35 @@
+// Article images are loaded through the server's image proxy, which caches them
+// and serves resized thumbnails, instead of straight from the publisher.
+
+// URL of an image through the proxy. Relative URLs are resolved against `base`
+// (usually the article's link); data: URLs and unparseable values are left alone.
+export function proxyImageUrl(url: string, options: { width?: number; base?: string | null } = {}): string {
+  let absolute: URL;
+  try {
+    absolute = new URL(url, options.base || undefined);
+  } catch {
+    return url;
+  }
+  if (absolute.protocol !== "http:" && absolute.protocol !== "https:") return url;
+
+  const params = new URLSearchParams({ url: absolute.toString() });
+  if (options.width) params.set("w", String(options.width));
+  return `/api/image-proxy?${params}`;
+}
+
+// Rewrite each candidate of a srcset attribute ("a.jpg 1x, b.jpg 2x")
+export function proxySrcset(srcset: string, base?: string | null): string {
+  return srcset
+    .split(",")
+    .map((candidate) => {
+      const [url, ...descriptors] = candidate.trim().split(/\s+/);
+      return url ? [proxyImageUrl(url, { base }), ...descriptors].join(" ") : "";
+    })
+    .filter(Boolean)
+    .join(", ");
+}
+
+// Feed icons are stored by the server (feeds.favicon records where they came from)
+export function feedIconUrl(feed: { id: string }): string {
+  return `/api/feeds/${feed.id}/icon`;
+}
@@ -0,0 +1,353 @@
+import { useEffect, useRef } from "react";
+import { Link, useParams } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/utils";
+import type { FeedWithCategory, FeedFetchLog, PublicFeed } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { ArrowLeft, RefreshCw, AlertTriangle, CheckCircle2, XCircle, History, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface FetchNowResult {
+  report: { new: number; updated: number; revised: number; skipped: number };
+  durationMs: number;
+  error: string | null;
+  status: number | null;
+  format: "xml" | "json" | "html" | null;
+  bytes: number | null;
+  warnings: string[];
+  movedTo: { url: string; statusCode: number } | null;
+  feed: unknown;
+}
+
+// As returned by /api/feeds/:id/backfill
+interface BackfillProgress {
+  state: "running" | "done" | "failed";
+  method: "archive" | "paged" | "wordpress" | null;
+  pages: number;
+  items: number;
+  newArticles: number;
+  currentUrl: string | null;
+  stopReason: string | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+const BACKFILL_METHOD_LABELS: Record<string, string> = {
+  archive: "archived feed (RFC 5005)",
+  paged: "paged feed",
+  wordpress: "WordPress pages",
+};
+
+const FORMAT_LABELS: Record<string, string> = {
+  xml: "XML",
+  json: "JSON Feed",
+  html: "Web page",
+};
+
+const AUTH_TYPE_LABELS: Record<string, string> = {
+  basic: "Basic",
+  bearer: "Bearer token",
+  headers: "Custom headers",
+};
+
+function StatusBadge({ entry }: { entry: Pick<FeedFetchLog, "status" | "error"> }) {
+  if (entry.error) {
+    return (
+      <Badge variant="destructive" className="gap-1">
+        <XCircle className="h-3 w-3" />
+        {entry.status ?? "Error"}
+      </Badge>
+    );
+  }
+  return (
+    <Badge variant="secondary" className="gap-1">
+      <CheckCircle2 className="h-3 w-3" />
+      {entry.status ?? "OK"}
+    </Badge>
+  );
+}
+
+function BackfillCard({ feed }: { feed: PublicFeed }) {
+  const { toast } = useToast();
+
+  const { data: progress } = useQuery<BackfillProgress | null>({
+    queryKey: ["/api/feeds", feed.id, "backfill"],
+    refetchInterval: (query) => (query.state.data?.state === "running" ? 2000 : false),
+  });
+
+  // Show the imported articles once a backfill finishes
+  const previousState = useRef(progress?.state);
+  useEffect(() => {
+    if (previousState.current === "running" && progress && progress.state !== "running") {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles/stats"] });
+    }
+    previousState.current = progress?.state;
+  }, [progress]);
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/feeds/${feed.id}/backfill`);
+      return res.json() as Promise<BackfillProgress>;
+    },
+    onSuccess: (started) => {
+      queryClient.setQueryData(["/api/feeds", feed.id, "backfill"], started);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Backfill failed to start", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const running = progress?.state === "running";
+  const unsupported = !!feed.scrapeSelectors || !!feed.newsletterInboxId;
+
+  return (
+    <Card data-testid="card-backfill">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-base">History</CardTitle>
+          <CardDescription>
+            {unsupported
+              ? "Only RSS, Atom and JSON feeds have older pages to import."
+              : "Import older posts by following the feed's archive or next-page links, or WordPress's numbered pages. " +
+                "Posts older than the retention limits are deleted again at the next cleanup."}
+          </CardDescription>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => startMutation.mutate()}
+          disabled={unsupported || running || startMutation.isPending}
+          data-testid="button-backfill"
+        >
+          {running || startMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <History className="h-4 w-4 mr-1" />
+          )}
+          Backfill history
+        </Button>
+      </CardHeader>
+      {progress && (
+        <CardContent className="space-y-2 text-sm" data-testid="backfill-progress">
+          <p className="text-muted-foreground">
+            {progress.pages} page{progress.pages === 1 ? "" : "s"} · {progress.items} items · {progress.newArticles} new articles
+            {progress.method && ` · ${BACKFILL_METHOD_LABELS[progress.method]}`}
+          </p>
+          {running && progress.currentUrl && (
+            <p className="text-xs text-muted-foreground break-all">Reading {progress.currentUrl}</p>
+          )}
+          {progress.state === "done" && (
+            <p data-testid="text-backfill-done">
+              Finished{progress.finishedAt && ` ${formatDistanceToNow(new Date(progress.finishedAt), { addSuffix: true })}`}
+              {progress.stopReason && `: ${progress.stopReason.toLowerCase()}`}
+            </p>
+          )}
+          {progress.state === "failed" && (
+            <Alert variant="destructive">
+              <XCircle className="h-4 w-4" />
+              <AlertDescription>{progress.error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+export default function FeedDiagnostics() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  const { data: feeds, isLoading: feedsLoading } = useQuery<FeedWithCategory[]>({
+    queryKey: ["/api/feeds"],
+  });
+  const feed = feeds?.find((f) => f.id === id);
+
+  const { data: fetchLog, isLoading: logLoading } = useQuery<FeedFetchLog[]>({
+    queryKey: ["/api/feeds", id, "fetch-log"],
+  });
+
+  const fetchNowMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/feeds/${id}/fetch`);
+      return res.json() as Promise<FetchNowResult>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds/health"] });
+      if (result.error) {
+        toast({ title: "Fetch failed", description: result.error, variant: "destructive" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Fetch failed", description: error.message, variant: "destructive" });
+    },
+  });
+  const result = fetchNowMutation.data;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between gap-4 p-3 border-b bg-background/95 backdrop-blur-sm sticky top-0 z-10">
+        <div className="flex items-center gap-2 min-w-0">
+          <Button variant="ghost" size="icon" asChild data-testid="button-back">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h2 className="text-sm font-medium text-muted-foreground truncate">
+            Diagnostics{feed ? ` · ${feed.title}` : ""}
+          </h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={() => fetchNowMutation.mutate()}
+            disabled={fetchNowMutation.isPending || !feed}
+            data-testid="button-fetch-now"
+          >
+            <RefreshCw className={`h-4 w-4 mr-1 ${fetchNowMutation.isPending ? "animate-spin" : ""}`} />
+            Fetch now
+          </Button>
+          <ThemeToggle />
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-4">
+        {feedsLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !feed ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>This feed doesn't exist or has been removed.</AlertDescription>
+          </Alert>
+        ) : (
+          <Card data-testid="card-feed-info">
+            <CardHeader>
+              <CardTitle className="text-base">{feed.title}</CardTitle>
+            </CardHeader>
+            <CardContent className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+              <span className="text-muted-foreground">URL</span>
+              <span className="break-all">{feed.url}</span>
+              {feed.scrapeSelectors && (
+                <>
+                  <span className="text-muted-foreground">Selectors</span>
+                  <span className="font-mono text-xs break-all" data-testid="text-scrape-selectors">
+                    {Object.entries(feed.scrapeSelectors)
+                      .filter(([, selector]) => selector)
+                      .map(([name, selector]) => `${name}: ${selector}`)
+                      .join(" · ")}
+                  </span>
+                </>
+              )}
+              <span className="text-muted-foreground">Authentication</span>
+              <span>{feed.authType ? AUTH_TYPE_LABELS[feed.authType] ?? feed.authType : "None"}</span>
+              <span className="text-muted-foreground">Status</span>
+              <span>{feed.isActive ? "Active" : `Switched off${feed.inactiveReason ? `: ${feed.inactiveReason}` : ""}`}</span>
+              <span className="text-muted-foreground">Last fetched</span>
+              <span>{feed.lastFetched ? formatDistanceToNow(new Date(feed.lastFetched), { addSuffix: true }) : "Never"}</span>
+              <span className="text-muted-foreground">Next fetch</span>
+              <span>{feed.nextFetchAt ? format(new Date(feed.nextFetchAt), "PPpp") : "Not scheduled"}</span>
+              <span className="text-muted-foreground">Consecutive errors</span>
+              <span>{feed.errorCount || 0}</span>
+              {feed.lastError && (
+                <>
+                  <span className="text-muted-foreground">Last error</span>
+                  <span className="text-destructive break-all" data-testid="text-last-error">{feed.lastError}</span>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {feed && <BackfillCard feed={feed} />}
+
+        {result && (
+          <Card data-testid="card-fetch-result">
+            <CardHeader>
+              <CardTitle className="text-base flex items-center gap-2">
+                Fetch result <StatusBadge entry={result} />
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <p className="text-muted-foreground">
+                {result.durationMs} ms · {formatBytes(result.bytes)}
+                {result.format && ` · ${FORMAT_LABELS[result.format]}`}
+                {` · ${result.report.new} new, ${result.report.updated} updated`}
+              </p>
+              {result.error && (
+                <Alert variant="destructive">
+                  <XCircle className="h-4 w-4" />
+                  <AlertDescription>{result.error}</AlertDescription>
+                </Alert>
+              )}
+              {result.warnings.length > 0 && (
+                <Alert data-testid="alert-fetch-warnings">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 space-y-0.5">
+                      {result.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+              {result.feed !== null && (
+                <pre className="max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs" data-testid="text-raw-feed">
+                  {JSON.stringify(result.feed, null, 2)}
+                </pre>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Fetch history</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {logLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : !fetchLog || fetchLog.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No fetches recorded yet.</p>
+            ) : (
+              <ol className="relative border-l ml-2 space-y-3" data-testid="list-fetch-log">
+                {fetchLog.map((entry) => (
+                  <li key={entry.id} className="ml-4 text-sm" data-testid={`fetch-log-${entry.id}`}>
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                        entry.error ? "bg-destructive" : "bg-primary"
+                      }`}
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <StatusBadge entry={entry} />
+                      <span title={format(new Date(entry.fetchedAt), "PPpp")}>
+                        {formatDistanceToNow(new Date(entry.fetchedAt), { addSuffix: true })}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {entry.durationMs} ms · {formatBytes(entry.bytes)} · {entry.itemsSeen} items, {entry.newItems} new
+                      </span>
+                    </div>
+                    {entry.error && <p className="text-destructive break-all mt-0.5">{entry.error}</p>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
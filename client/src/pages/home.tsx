@@ -1,7 +1,8 @@
 import { useState, useCallback, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Feed } from "@shared/schema";
+import type { ArticleWithFeed, Feed, FeedRedirect, FeedWithCategory } from "@shared/schema";
 import { SidebarProvider, SidebarTrigger, SidebarInset } from "@/components/ui/sidebar";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
@@ -12,7 +13,9 @@ import { AddFeedModal } from "@/components/add-feed-modal";
 import { SearchBar } from "@/components/search-bar";
 import { ViewToggle } from "@/components/view-toggle";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { RefreshCw, Check, AlertTriangle, X } from "lucide-react";
+import { AudioPlayer } from "@/components/audio-player";
+import { FeedSettingsDialog } from "@/components/feed-settings-dialog";
+import { RefreshCw, Check, AlertTriangle, X, Info, Activity, Settings } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 
@@ -20,17 +23,27 @@ interface FeedHealthStats {
   totalFeeds: number;
   failingFeeds: number;
   feedsWithErrors: Feed[];
+  goneFeeds: Feed[];
+  movedFeeds: (FeedRedirect & { feedTitle: string })[];
 }
 
 export default function Home() {
   const { toast } = useToast();
   const [showAddFeedModal, setShowAddFeedModal] = useState(false);
   const [selectedFeedId, setSelectedFeedId] = useState<string | null>(null);
-  const [selectedFilter, setSelectedFilter] = useState<"all" | "unread" | "bookmarked">("all");
+  const [selectedFilter, setSelectedFilter] = useState<"all" | "unread" | "bookmarked" | "podcasts">("all");
   const [selectedArticleId, setSelectedArticleId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [viewMode, setViewMode] = useState<"card" | "list">("card");
   const [dismissedHealthWarning, setDismissedHealthWarning] = useState(false);
+  const [dismissedFeedEvents, setDismissedFeedEvents] = useState(false);
+  const [nowPlaying, setNowPlaying] = useState<ArticleWithFeed | null>(null);
+  const [showFeedSettings, setShowFeedSettings] = useState(false);
+
+  const { data: feeds = [] } = useQuery<FeedWithCategory[]>({
+    queryKey: ["/api/feeds"],
+  });
+  const selectedFeed = feeds.find((feed) => feed.id === selectedFeedId);
 
   const { data: feedHealth } = useQuery<FeedHealthStats>({
     queryKey: ["/api/feeds/health"],
@@ -88,7 +101,7 @@ export default function Home() {
     setSelectedArticleId(null);
   }, []);
 
-  const handleFilterChange = useCallback((filter: "all" | "unread" | "bookmarked") => {
+  const handleFilterChange = useCallback((filter: "all" | "unread" | "bookmarked" | "podcasts") => {
     setSelectedFilter(filter);
     setSelectedArticleId(null);
   }, []);
@@ -252,6 +265,8 @@ export default function Home() {
                   ? "All Articles" 
                   : selectedFilter === "unread"
                   ? "Unread Articles"
+                  : selectedFilter === "podcasts"
+                  ? "Podcasts"
                   : "Bookmarked Articles"}
               </h2>
             </div>
@@ -268,6 +283,24 @@ export default function Home() {
                 viewMode={viewMode}
                 onViewModeChange={setViewMode}
               />
+              {selectedFeed && (
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowFeedSettings(true)}
+                  title="Feed settings"
+                  data-testid="button-feed-settings"
+                >
+                  <Settings className="h-4 w-4" />
+                </Button>
+              )}
+              {selectedFeedId && (
+                <Button variant="outline" size="icon" asChild data-testid="button-feed-diagnostics">
+                  <Link href={`/feeds/${selectedFeedId}/diagnostics`} title="Feed diagnostics">
+                    <Activity className="h-4 w-4" />
+                  </Link>
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="sm"
@@ -311,6 +344,35 @@ export default function Home() {
             </Alert>
           )}
 
+          {feedHealth && (feedHealth.goneFeeds.length > 0 || feedHealth.movedFeeds.length > 0) && !dismissedFeedEvents && (
+            <Alert className="mx-3 mt-3 flex items-start justify-between" data-testid="alert-feed-events">
+              <div className="flex items-start gap-2">
+                <Info className="h-4 w-4 mt-0.5" />
+                <AlertDescription className="space-y-1">
+                  {feedHealth.movedFeeds.map((redirect) => (
+                    <p key={redirect.id}>
+                      <span className="font-medium">{redirect.feedTitle}</span> moved to{" "}
+                      <span className="break-all">{redirect.toUrl}</span> (was {redirect.fromUrl}).
+                    </p>
+                  ))}
+                  {feedHealth.goneFeeds.map((feed) => (
+                    <p key={feed.id}>
+                      <span className="font-medium">{feed.title}</span> was switched off: {feed.inactiveReason}
+                    </p>
+                  ))}
+                </AlertDescription>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setDismissedFeedEvents(true)}
+                data-testid="button-dismiss-feed-events"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </Alert>
+          )}
+
           <div className="flex-1 flex overflow-hidden">
             <div className={`flex-1 flex flex-col overflow-hidden ${selectedArticleId ? "hidden lg:flex lg:max-w-lg xl:max-w-xl 2xl:max-w-2xl border-r" : ""}`}>
               <ArticleList
@@ -327,6 +389,7 @@ export default function Home() {
               <ArticleReader
                 articleId={selectedArticleId}
                 onClose={handleCloseReader}
+                onPlayEpisode={setNowPlaying}
               />
             ) : (
               <div className="hidden lg:flex flex-1">
@@ -334,6 +397,14 @@ export default function Home() {
               </div>
             )}
           </div>
+
+          {nowPlaying && (
+            <AudioPlayer
+              key={nowPlaying.id}
+              episode={nowPlaying}
+              onClose={() => setNowPlaying(null)}
+            />
+          )}
         </SidebarInset>
       </div>
 
@@ -341,6 +412,14 @@ export default function Home() {
         open={showAddFeedModal}
         onOpenChange={setShowAddFeedModal}
       />
+
+      {selectedFeed && (
+        <FeedSettingsDialog
+          feed={selectedFeed}
+          open={showFeedSettings}
+          onOpenChange={setShowFeedSettings}
+        />
+      )}
     </SidebarProvider>
   );
 }
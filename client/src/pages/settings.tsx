@@ -0,0 +1,241 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatBytes } from "@/lib/utils";
+import type { FeedWithCategory, RetentionPolicy } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ThemeToggle } from "@/components/theme-toggle";
+import { RetentionFields, describeRetention, emptyRetentionPolicy } from "@/components/retention-fields";
+import { ArrowLeft, Loader2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+// As returned by GET /api/storage
+interface StorageStats {
+  databaseBytes: number;
+  articlesBytes: number;
+  imageCache: { files: number; bytes: number; maxBytes: number };
+  lastCleanupAt: string | null;
+  feeds: {
+    feedId: string;
+    title: string;
+    articles: number;
+    unread: number;
+    bookmarked: number;
+    bytes: number;
+    oldestPublishedAt: string | null;
+  }[];
+}
+
+// As returned by POST /api/storage/purge
+interface CleanupReport {
+  deleted: number;
+  feeds: { feedId: string; deleted: number }[];
+}
+
+export default function Settings() {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<RetentionPolicy>(emptyRetentionPolicy);
+
+  const { data: savedPolicy, isLoading: policyLoading } = useQuery<RetentionPolicy>({
+    queryKey: ["/api/settings/retention"],
+  });
+
+  useEffect(() => {
+    if (savedPolicy) setPolicy(savedPolicy);
+  }, [savedPolicy]);
+
+  const { data: stats, isLoading: statsLoading } = useQuery<StorageStats>({
+    queryKey: ["/api/storage"],
+  });
+
+  const { data: feeds = [] } = useQuery<FeedWithCategory[]>({
+    queryKey: ["/api/feeds"],
+  });
+  const feedsById = new Map(feeds.map((feed) => [feed.id, feed]));
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: RetentionPolicy) => {
+      await apiRequest("PUT", "/api/settings/retention", value);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/retention"] });
+      toast({ title: "Retention settings saved", description: "They apply from the next cleanup." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save retention settings", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (feedId?: string) => {
+      const res = await apiRequest("POST", "/api/storage/purge", feedId ? { feedId } : {});
+      return res.json() as Promise<CleanupReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/storage"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/articles/stats"] });
+      toast({
+        title: "Cleanup complete",
+        description: report.deleted > 0
+          ? `Deleted ${report.deleted} article${report.deleted === 1 ? "" : "s"}`
+          : "Nothing needed deleting",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Cleanup failed", description: error.message, variant: "destructive" });
+    },
+  });
+  const purgingFeedId = purgeMutation.isPending ? purgeMutation.variables ?? "all" : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="flex items-center justify-between gap-4 p-3 border-b bg-background/95 backdrop-blur-sm sticky top-0 z-10">
+        <div className="flex items-center gap-2 min-w-0">
+          <Button variant="ghost" size="icon" asChild data-testid="button-back">
+            <Link href="/">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <h2 className="text-sm font-medium text-muted-foreground truncate">Settings</h2>
+        </div>
+        <ThemeToggle />
+      </header>
+
+      <main className="max-w-4xl mx-auto p-4 space-y-4">
+        <Card data-testid="card-retention">
+          <CardHeader>
+            <CardTitle className="text-base">Article retention</CardTitle>
+            <CardDescription>
+              Old articles are deleted every few hours. Bookmarked articles are always kept, and feeds can have
+              limits of their own in their settings.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {policyLoading ? (
+              <Skeleton className="h-16 w-full" />
+            ) : (
+              <RetentionFields value={policy} onChange={setPolicy} />
+            )}
+            <div className="flex justify-end">
+              <Button
+                onClick={() => saveMutation.mutate(policy)}
+                disabled={saveMutation.isPending || policyLoading}
+                data-testid="button-save-retention"
+              >
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card data-testid="card-storage">
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="text-base">Storage</CardTitle>
+              <CardDescription>
+                {stats?.lastCleanupAt
+                  ? `Last cleanup ${formatDistanceToNow(new Date(stats.lastCleanupAt), { addSuffix: true })}`
+                  : "No cleanup since the server started"}
+              </CardDescription>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => purgeMutation.mutate(undefined)}
+              disabled={purgeMutation.isPending}
+              data-testid="button-purge-all"
+            >
+              {purgingFeedId === "all" ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Trash2 className="h-4 w-4 mr-1" />
+              )}
+              Clean up now
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {statsLoading || !stats ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <>
+                <div className="grid grid-cols-[max-content_1fr] gap-x-4 gap-y-1 text-sm">
+                  <span className="text-muted-foreground">Database</span>
+                  <span data-testid="text-database-size">{formatBytes(stats.databaseBytes)}</span>
+                  <span className="text-muted-foreground">Articles</span>
+                  <span>
+                    {stats.feeds.reduce((total, feed) => total + feed.articles, 0)} articles ·{" "}
+                    {formatBytes(stats.articlesBytes)} with indexes
+                  </span>
+                  <span className="text-muted-foreground">Image cache</span>
+                  <span>
+                    {stats.imageCache.files} files · {formatBytes(stats.imageCache.bytes)} of{" "}
+                    {formatBytes(stats.imageCache.maxBytes)}
+                  </span>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Feed</TableHead>
+                      <TableHead className="text-right">Articles</TableHead>
+                      <TableHead className="text-right">Unread</TableHead>
+                      <TableHead className="text-right">Bookmarked</TableHead>
+                      <TableHead className="text-right">Size</TableHead>
+                      <TableHead className="w-10" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stats.feeds.map((row) => {
+                      const retention = feedsById.get(row.feedId)?.retention;
+                      return (
+                        <TableRow key={row.feedId} data-testid={`storage-feed-${row.feedId}`}>
+                          <TableCell className="max-w-xs">
+                            <div className="truncate font-medium">{row.title}</div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {retention ? describeRetention(retention) : "Global retention"}
+                              {row.oldestPublishedAt &&
+                                ` · oldest ${formatDistanceToNow(new Date(row.oldestPublishedAt), { addSuffix: true })}`}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">{row.articles}</TableCell>
+                          <TableCell className="text-right tabular-nums">{row.unread}</TableCell>
+                          <TableCell className="text-right tabular-nums">{row.bookmarked}</TableCell>
+                          <TableCell className="text-right tabular-nums">{formatBytes(row.bytes)}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => purgeMutation.mutate(row.feedId)}
+                              disabled={purgeMutation.isPending || row.articles === 0}
+                              title="Apply the retention limits to this feed now"
+                              data-testid={`button-purge-${row.feedId}`}
+                            >
+                              {purgingFeedId === row.feedId ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Trash2 className="h-4 w-4" />
+                              )}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
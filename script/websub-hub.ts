@@ -0,0 +1,135 @@
+// Minimal WebSub hub and publisher for trying out push subscriptions locally.
+//
+//   PUBLIC_URL=http://127.0.0.1:5000 FETCH_ALLOWLIST=127.0.0.1 npm run dev
+//   tsx script/websub-hub.ts
+//
+// Then add http://127.0.0.1:5050/feed.xml as a feed and POST to
+// http://127.0.0.1:5050/publish to add an item and push it to subscribers.
+import express from "express";
+import crypto from "crypto";
+
+const port = parseInt(process.env.HUB_PORT || "5050", 10);
+const baseUrl = `http://127.0.0.1:${port}`;
+const topic = `${baseUrl}/feed.xml`;
+
+interface Subscriber {
+  callback: string;
+  secret?: string;
+  expiresAt: number;
+}
+
+const subscribers = new Map<string, Subscriber>();
+const items: { id: number; title: string; date: Date }[] = [];
+
+function renderFeed(): string {
+  const entries = items
+    .map(
+      (item) => `
+    <item>
+      <title>${item.title}</title>
+      <link>${baseUrl}/posts/${item.id}</link>
+      <guid>${baseUrl}/posts/${item.id}</guid>
+      <pubDate>${item.date.toUTCString()}</pubDate>
+      <description>Test post number ${item.id}</description>
+    </item>`
+    )
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>WebSub test feed</title>
+    <link>${baseUrl}/</link>
+    <description>Local feed for testing WebSub push</description>
+    <atom:link rel="hub" href="${baseUrl}/" />
+    <atom:link rel="self" href="${topic}" />${entries}
+  </channel>
+</rss>`;
+}
+
+// Confirm the subscriber really asked for this, as the spec requires
+async function verify(mode: string, callback: string, leaseSeconds: number): Promise<boolean> {
+  const challenge = crypto.randomBytes(16).toString("hex");
+  const url = new URL(callback);
+  url.searchParams.set("hub.mode", mode);
+  url.searchParams.set("hub.topic", topic);
+  url.searchParams.set("hub.challenge", challenge);
+  url.searchParams.set("hub.lease_seconds", String(leaseSeconds));
+
+  try {
+    const response = await fetch(url);
+    return response.ok && (await response.text()) === challenge;
+  } catch {
+    return false;
+  }
+}
+
+async function distribute() {
+  const body = renderFeed();
+
+  for (const subscriber of Array.from(subscribers.values())) {
+    if (subscriber.expiresAt < Date.now()) {
+      subscribers.delete(subscriber.callback);
+      continue;
+    }
+
+    const headers: Record<string, string> = {
+      "Content-Type": "application/rss+xml",
+      Link: `<${baseUrl}/>; rel="hub", <${topic}>; rel="self"`,
+    };
+    if (subscriber.secret) {
+      const signature = crypto.createHmac("sha256", subscriber.secret).update(body).digest("hex");
+      headers["X-Hub-Signature"] = `sha256=${signature}`;
+    }
+
+    const response = await fetch(subscriber.callback, { method: "POST", headers, body });
+    console.log(`pushed to ${subscriber.callback}: ${response.status}`);
+    if (response.status === 410) {
+      subscribers.delete(subscriber.callback);
+    }
+  }
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/feed.xml", (_req, res) => {
+  res.type("application/rss+xml").send(renderFeed());
+});
+
+app.post("/", (req, res) => {
+  const mode = req.body["hub.mode"];
+  const callback = req.body["hub.callback"];
+  if (req.body["hub.topic"] !== topic || !callback || !["subscribe", "unsubscribe"].includes(mode)) {
+    return res.status(400).send("Bad subscription request");
+  }
+
+  const leaseSeconds = parseInt(req.body["hub.lease_seconds"] || "3600", 10);
+  res.status(202).send();
+
+  void verify(mode, callback, leaseSeconds).then((ok) => {
+    console.log(`${mode} ${callback}: ${ok ? "verified" : "not verified"}`);
+    if (!ok) return;
+
+    if (mode === "subscribe") {
+      subscribers.set(callback, {
+        callback,
+        secret: req.body["hub.secret"],
+        expiresAt: Date.now() + leaseSeconds * 1000,
+      });
+    } else {
+      subscribers.delete(callback);
+    }
+  });
+});
+
+app.post("/publish", async (_req, res) => {
+  const id = items.length + 1;
+  items.unshift({ id, title: `Post ${id}`, date: new Date() });
+  await distribute();
+  res.json({ published: id, subscribers: subscribers.size });
+});
+
+app.listen(port, "127.0.0.1", () => {
+  console.log(`WebSub test hub listening on ${baseUrl}, topic ${topic}`);
+});
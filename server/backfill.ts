@@ -0,0 +1,183 @@
+import { parseFeed, type ParseFeedResult } from "./feed-fetcher";
+import { ingestItems } from "./ingestion";
+import { openFeedCredentials } from "./secrets";
+import type { Feed } from "@shared/schema";
+
+// History backfill: import a feed's back catalogue by walking its older
+// documents, which a regular fetch never sees. Three kinds of feed are walked:
+// RFC 5005 archived feeds (rel="prev-archive"), paged feeds (rel="next", or a
+// JSON Feed's next_url) and WordPress feeds, which take ?paged=N. Runs in the
+// background, one page at a time, with progress kept in memory for the client
+// to poll.
+
+export type BackfillMethod = "archive" | "paged" | "wordpress";
+
+export interface BackfillProgress {
+  feedId: string;
+  state: "running" | "done" | "failed";
+  // How older pages are found, once the first page has been read
+  method: BackfillMethod | null;
+  pages: number;
+  items: number;
+  newArticles: number;
+  // The page being fetched while running
+  currentUrl: string | null;
+  // Why the walk ended, e.g. the oldest page was reached
+  stopReason: string | null;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}
+
+// Enough for years of a busy blog, and a bound on feeds whose pages never end
+const MAX_PAGES = 200;
+// Pause between pages so a back catalogue doesn't hammer the publisher's server
+const PAGE_DELAY_MS = 1000;
+
+const jobs = new Map<string, BackfillProgress>();
+
+export function getBackfillProgress(feedId: string): BackfillProgress | null {
+  return jobs.get(feedId) ?? null;
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// WordPress says so in <generator>; its feed URLs give it away too
+function isWordPressFeed(feedUrl: string, result: ParseFeedResult): boolean {
+  if (/wordpress\.(org|com)/i.test(String(result.feed?.generator || ""))) return true;
+  const url = new URL(feedUrl);
+  return /\/feed(\/(rss2?|atom))?\/?$/.test(url.pathname) || url.searchParams.has("feed");
+}
+
+function wordPressPageUrl(feedUrl: string, page: number): string {
+  const url = new URL(feedUrl);
+  url.searchParams.set("paged", String(page));
+  return url.toString();
+}
+
+// The next older page after the one just read, or null at the end
+function olderPage(feed: Feed, method: BackfillMethod, result: ParseFeedResult, pages: number): string | null {
+  switch (method) {
+    case "archive":
+      return result.prevArchive ?? null;
+    case "paged":
+      return result.next ?? null;
+    case "wordpress":
+      return wordPressPageUrl(feed.url, pages + 1);
+  }
+}
+
+function detectMethod(feed: Feed, result: ParseFeedResult): BackfillMethod | null {
+  if (result.prevArchive) return "archive";
+  if (result.next) return "paged";
+  if (isWordPressFeed(feed.url, result)) return "wordpress";
+  return null;
+}
+
+async function walk(feed: Feed, progress: BackfillProgress) {
+  const credentials = openFeedCredentials(feed);
+  const feedOrigin = new URL(feed.url).origin;
+  const visited = new Set<string>();
+  const seenGuids = new Set<string>();
+  let url: string | null = feed.url;
+
+  while (url) {
+    if (progress.pages >= MAX_PAGES) {
+      progress.stopReason = `Stopped after ${MAX_PAGES} pages`;
+      return;
+    }
+    visited.add(url);
+    progress.currentUrl = url;
+
+    // Credentials stay with the feed's own server
+    const sameOrigin = new URL(url).origin === feedOrigin;
+    const result = await parseFeed(url, undefined, sameOrigin ? credentials : null);
+
+    if (!result.success || !result.feed) {
+      // WordPress answers 404 past its last page
+      if (progress.method === "wordpress" && result.status === 404) {
+        progress.stopReason = "Reached the oldest page";
+        return;
+      }
+      throw new Error(result.error || "Failed to parse feed");
+    }
+
+    if (progress.pages === 0) {
+      progress.method = detectMethod(feed, result);
+    }
+
+    const items = result.feed.items || [];
+    // A page with nothing new means the walk is going round in circles, or
+    // ?paged=N was ignored and the first page came back again
+    const unseen = items.filter((item) => {
+      const guid = item.guid || item.link || item.title || "";
+      if (seenGuids.has(guid)) return false;
+      seenGuids.add(guid);
+      return true;
+    });
+    if (progress.pages > 0 && unseen.length === 0) {
+      progress.stopReason = "Reached the oldest page";
+      return;
+    }
+
+    // Whole pages, however large; fetching every article's page as well would take far too long
+    const report = await ingestItems(feed, unseen, { limit: unseen.length, fetchPages: false });
+    progress.pages++;
+    progress.items += unseen.length;
+    progress.newArticles += report.new;
+
+    if (!progress.method) {
+      progress.stopReason = "The feed doesn't link to older pages";
+      return;
+    }
+
+    const next: string | null = olderPage(feed, progress.method, result, progress.pages);
+    if (!next || visited.has(next)) {
+      progress.stopReason = "Reached the oldest page";
+      return;
+    }
+    url = next;
+    await wait(PAGE_DELAY_MS);
+  }
+}
+
+// Start backfilling a feed in the background and return its progress. Callers
+// check first that the feed is fetched (not a newsletter or web page feed) and
+// that no backfill of it is already running.
+export function startBackfill(feed: Feed): BackfillProgress {
+  const progress: BackfillProgress = {
+    feedId: feed.id,
+    state: "running",
+    method: null,
+    pages: 0,
+    items: 0,
+    newArticles: 0,
+    currentUrl: null,
+    stopReason: null,
+    error: null,
+    startedAt: new Date(),
+    finishedAt: null,
+  };
+  jobs.set(feed.id, progress);
+
+  walk(feed, progress)
+    .then(() => {
+      progress.state = "done";
+      console.log(
+        `[backfill] feed ${feed.id}: ${progress.newArticles} new articles from ${progress.pages} pages (${progress.stopReason})`
+      );
+    })
+    .catch((error) => {
+      progress.state = "failed";
+      progress.error = error instanceof Error ? error.message : "Backfill failed";
+      console.error(`[backfill] feed ${feed.id} failed after ${progress.pages} pages:`, error);
+    })
+    .finally(() => {
+      progress.currentUrl = null;
+      progress.finishedAt = new Date();
+    });
+
+  return progress;
+}
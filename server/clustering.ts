@@ -0,0 +1,139 @@
+import { storage, type ClusterCandidate } from "./storage";
+
+// Cross-feed duplicate detection. Every article gets a canonical URL and a
+// SimHash fingerprint of its text at ingestion; new articles that share a
+// canonical URL or have a near-identical fingerprint with a recent article
+// from another feed join that article's story cluster.
+
+// Only compare articles published this close together
+const CLUSTER_WINDOW_MS = 48 * 60 * 60 * 1000;
+
+// Fingerprints differing in at most this many of their 64 bits are the same story
+const MAX_HAMMING_DISTANCE = 3;
+
+// Below this many words a fingerprint says too little to match on
+const MIN_FINGERPRINT_WORDS = 12;
+
+// Text beyond this is ignored when fingerprinting; the lede is what syndicated copies share
+const FINGERPRINT_TEXT_LENGTH = 3000;
+
+// 32-bit FNV-1a; two differently seeded passes make up a 64-bit hash
+function fnv1a32(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const HASH_SEEDS = [0x811c9dc5, 0x050c5d1f];
+
+function popcount32(n: number): number {
+  n = n - ((n >>> 1) & 0x55555555);
+  n = (n & 0x33333333) + ((n >>> 2) & 0x33333333);
+  return (Math.imul((n + (n >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24);
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&[a-z#0-9]+;/g, " ")
+    .split(/[^a-z0-9\u00c0-\uffff]+/)
+    .filter((word) => word.length > 1);
+}
+
+// 64-bit SimHash over word pairs of the title and the start of the text, as
+// 16 hex digits. Null when there's too little text to be meaningful.
+export function contentFingerprint(title: string, text: string | null | undefined): string | null {
+  const tokens = words(`${title} ${(text || "").slice(0, FINGERPRINT_TEXT_LENGTH)}`);
+  if (tokens.length < MIN_FINGERPRINT_WORDS) return null;
+
+  const weights = new Array<number>(64).fill(0);
+  for (let i = 0; i < tokens.length - 1; i++) {
+    const shingle = `${tokens[i]} ${tokens[i + 1]}`;
+    HASH_SEEDS.forEach((seed, half) => {
+      const hash = fnv1a32(shingle, seed);
+      for (let bit = 0; bit < 32; bit++) {
+        weights[half * 32 + bit] += (hash >>> bit) & 1 ? 1 : -1;
+      }
+    });
+  }
+
+  return HASH_SEEDS.map((_, half) => {
+    let value = 0;
+    for (let bit = 0; bit < 32; bit++) {
+      if (weights[half * 32 + bit] > 0) value |= 1 << bit;
+    }
+    return (value >>> 0).toString(16).padStart(8, "0");
+  }).join("");
+}
+
+function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < 16; i += 8) {
+    const x = parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16);
+    distance += popcount32(x);
+  }
+  return distance;
+}
+
+function isDuplicate(article: ClusterCandidate, other: ClusterCandidate): boolean {
+  if (article.feedId === other.feedId) return false;
+  if (article.publishedAt && other.publishedAt &&
+      Math.abs(article.publishedAt.getTime() - other.publishedAt.getTime()) > CLUSTER_WINDOW_MS) {
+    return false;
+  }
+  if (article.canonicalUrl && article.canonicalUrl === other.canonicalUrl) return true;
+  return Boolean(article.fingerprint && other.fingerprint &&
+    hammingDistance(article.fingerprint, other.fingerprint) <= MAX_HAMMING_DISTANCE);
+}
+
+// Put newly ingested articles into story clusters with matching articles from other feeds
+export async function clusterArticles(articleIds: string[]): Promise<number> {
+  if (articleIds.length === 0) return 0;
+
+  const newArticles = await storage.getClusterCandidatesById(articleIds);
+  const now = Date.now();
+  const time = (article: ClusterCandidate) => article.publishedAt?.getTime() ?? now;
+  newArticles.sort((a, b) => time(a) - time(b));
+
+  // Candidates are loaded for one stretch of dates at a time, so a batch spread
+  // over years (an OPML import or a backfill) never holds more than a few days'
+  // articles in memory or compares each new article against all of them
+  let clustered = 0;
+  for (let start = 0; start < newArticles.length; ) {
+    let end = start + 1;
+    while (end < newArticles.length && time(newArticles[end]) - time(newArticles[start]) <= CLUSTER_WINDOW_MS) {
+      end++;
+    }
+    const group = newArticles.slice(start, end);
+    start = end;
+
+    const candidates = await storage.getClusterCandidates(
+      new Date(time(group[0]) - CLUSTER_WINDOW_MS),
+      new Date(time(group[group.length - 1]) + CLUSTER_WINDOW_MS),
+    );
+
+    for (const article of group) {
+      const matches = (other: ClusterCandidate) => other.id !== article.id && isDuplicate(article, other);
+      // Join an existing cluster before starting one, so a story never ends up split across two
+      const match = candidates.find((other) => other.clusterId && matches(other)) ?? candidates.find(matches);
+      if (!match) continue;
+
+      const clusterId = match.clusterId ?? (await storage.createStoryCluster(match.id));
+      await storage.updateArticle(article.id, { clusterId });
+      match.clusterId = clusterId;
+      article.clusterId = clusterId;
+      clustered++;
+
+      // Later articles of the batch see this one's cluster
+      const index = candidates.findIndex((other) => other.id === article.id);
+      if (index >= 0) candidates[index] = article;
+      else candidates.push(article);
+    }
+  }
+
+  return clustered;
+}
@@ -0,0 +1,357 @@
+import { JSDOM } from "jsdom";
+import { safeFetch } from "./outbound";
+import { parseFeed, mapConcurrency, type ParsedFeed, type ParseFeedResult } from "./feed-fetcher";
+import { feedIconCandidates } from "./feed-icons";
+import type { FeedCredentials } from "@shared/schema";
+
+// Finds the feeds behind a web page. Candidates come from URL rules for
+// platforms whose feeds live at known addresses, the page's <link> tags, feed
+// links in its body and its generator <meta>, and as a last resort a handful of
+// common paths. Each candidate is fetched so the add-feed dialog can show what
+// it will get; candidates that aren't feeds are dropped.
+
+const USER_AGENT = "ModernFeed RSS Reader/1.0";
+
+// Candidates fetched per discovery, and how many at a time
+const MAX_CANDIDATES = 12;
+const VERIFY_CONCURRENCY = 4;
+
+const FEED_LINK_TYPES = /^(application\/(rss|atom|rdf|feed)\+(xml|json)|application\/(xml|json)|text\/xml)$/i;
+// hrefs of <a> links that look like feeds
+const FEED_HREF_PATTERN = /(\/(feed|rss|atom)\/?$|\.(rss|atom)$|\/(rss|atom|feed|index)\.(xml|json)$|\/feeds\/posts\/default|[?&](feed|format)=(rss|atom))/i;
+// Link text of <a> links to feeds whose URLs give nothing away
+const FEED_TEXT_PATTERN = /^\s*(rss|atom)(\s+feed)?\s*$|\b(rss|atom) feed\b|subscribe (via|with) (rss|atom)/i;
+
+const COMMON_PATHS = ["/feed", "/rss", "/rss.xml", "/atom.xml", "/feed.xml", "/feed.json", "/index.xml", "/blog/feed", "/blog/rss"];
+
+// First path segments on github.com that aren't users or organisations
+const GITHUB_RESERVED = new Set([
+  "about", "apps", "collections", "contact", "customer-stories", "enterprise", "events", "explore",
+  "features", "issues", "login", "marketplace", "new", "notifications", "orgs", "pricing",
+  "pulls", "search", "settings", "sponsors", "topics", "trending",
+]);
+
+export interface DiscoveredFeed {
+  url: string;
+  title: string;
+  type: string;
+  // Where the feed was found: a known URL pattern for the site, the page's
+  // <link> tags, a link in the page body, or a common path
+  source: "rule" | "link" | "anchor" | "probe";
+  // The platform a rule recognised, e.g. "GitHub" or "WordPress"
+  platform: string | null;
+  description: string | null;
+  siteUrl: string | null;
+  iconUrl: string | null;
+  itemCount: number | null;
+  lastUpdated: string | null;
+  // Whether the feed was fetched and parsed; private feeds may not be
+  verified: boolean;
+}
+
+interface Candidate {
+  url: string;
+  title?: string;
+  type?: string;
+  source: DiscoveredFeed["source"];
+  platform?: string;
+}
+
+// Human-readable feed format for a <link> type attribute
+export function feedTypeLabel(type: string): string {
+  if (type.includes("json")) return "JSON Feed";
+  if (type.includes("rdf")) return "RDF";
+  return type.includes("atom") ? "Atom" : "RSS";
+}
+
+function resolveUrl(href: string | null | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+// Feed URLs implied by the page URL alone, for platforms with predictable feeds
+export function siteRuleCandidates(pageUrl: string): Candidate[] {
+  const url = new URL(pageUrl);
+  const host = url.hostname.toLowerCase().replace(/^(www|old|new|m)\./, "");
+  const segments = url.pathname.split("/").filter(Boolean).map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const [first, second, third, fourth] = segments;
+  const rule = (platform: string, path: string, title: string, type = "RSS", origin = url.origin): Candidate => ({
+    url: new URL(path, origin).toString(),
+    title,
+    type,
+    source: "rule",
+    platform,
+  });
+
+  if (host === "reddit.com") {
+    const reddit = "https://www.reddit.com";
+    if ((first === "r" || first === "user" || first === "u") && second) {
+      const prefix = first === "r" ? `/r/${second}` : `/user/${second}`;
+      const candidates = [rule("Reddit", `${prefix}/.rss`, first === "r" ? `r/${second}` : `u/${second}`, "Atom", reddit)];
+      if (third === "comments" && fourth) {
+        candidates.unshift(rule("Reddit", `${prefix}/comments/${fourth}/.rss`, "Comments on this post", "Atom", reddit));
+      }
+      return candidates;
+    }
+    return first ? [] : [rule("Reddit", "/.rss", "Reddit front page", "Atom", reddit)];
+  }
+
+  if (host === "github.com" && first && !GITHUB_RESERVED.has(first.toLowerCase())) {
+    if (!second) {
+      return [rule("GitHub", `/${first}.atom`, `${first}'s public activity`, "Atom")];
+    }
+    const repo = `/${first}/${second.replace(/\.git$/, "")}`;
+    const candidates = [
+      rule("GitHub", `${repo}/releases.atom`, `Releases of ${first}/${second}`, "Atom"),
+      rule("GitHub", `${repo}/tags.atom`, `Tags of ${first}/${second}`, "Atom"),
+    ];
+    const branch = third === "commits" || third === "tree" ? segments.slice(3).join("/") : "";
+    candidates.push(branch
+      ? rule("GitHub", `${repo}/commits/${branch}.atom`, `Commits to ${branch}`, "Atom")
+      : rule("GitHub", `${repo}/commits.atom`, `Commits to ${first}/${second}`, "Atom"));
+    // Put the feed for the page being viewed first
+    if (third === "tags") candidates.unshift(candidates.splice(1, 1)[0]);
+    if (third === "commits" || third === "tree") candidates.unshift(candidates.pop()!);
+    return candidates;
+  }
+
+  if (host.endsWith(".substack.com")) {
+    return [rule("Substack", "/feed", host.split(".")[0])];
+  }
+
+  if (host === "medium.com" && first) {
+    if (first === "tag" && second) {
+      return [rule("Medium", `/feed/tag/${second}`, `Medium: ${second}`)];
+    }
+    return [rule("Medium", `/feed/${first}`, first)];
+  }
+  if (host.endsWith(".medium.com")) {
+    return [rule("Medium", "/feed", host.split(".")[0])];
+  }
+
+  if (host.endsWith(".blogspot.com")) {
+    return [
+      rule("Blogger", "/feeds/posts/default", "Posts", "Atom"),
+      rule("Blogger", "/feeds/comments/default", "Comments", "Atom"),
+    ];
+  }
+
+  // Mastodon (and other fediverse servers) publish RSS for profiles and hashtags;
+  // the candidate is simply dropped if the site turns out to be something else
+  if (first?.startsWith("@") && first.length > 1 && (!second || /^(with_replies|media)$/.test(second))) {
+    return [rule("Mastodon", `/${first}.rss`, first)];
+  }
+  if (first === "users" && second && !third) {
+    return [rule("Mastodon", `/@${second}.rss`, `@${second}`)];
+  }
+  if (first === "tags" && second && !third) {
+    return [rule("Mastodon", `/tags/${second}.rss`, `#${second}`)];
+  }
+
+  return [];
+}
+
+// Feeds implied by the blogging platform a page says it was generated by
+function generatorCandidates(generator: string, pageUrl: string): Candidate[] {
+  const url = new URL(pageUrl);
+  const path = url.pathname.replace(/\/$/, "");
+  const rule = (platform: string, feedPath: string, title: string, type = "RSS"): Candidate => ({
+    url: new URL(feedPath, url.origin).toString(),
+    title,
+    type,
+    source: "rule",
+    platform,
+  });
+
+  if (/wordpress/i.test(generator)) {
+    const candidates = [rule("WordPress", "/feed/", "Posts"), rule("WordPress", "/comments/feed/", "Comments")];
+    // Category, tag and author archives have feeds of their own
+    if (/^\/(category|tag|author)\//.test(path)) {
+      candidates.unshift(rule("WordPress", `${path}/feed/`, "This archive"));
+    }
+    return candidates;
+  }
+  if (/blogger/i.test(generator)) {
+    return [rule("Blogger", "/feeds/posts/default", "Posts", "Atom"), rule("Blogger", "/feeds/comments/default", "Comments", "Atom")];
+  }
+  if (/ghost/i.test(generator)) {
+    return [rule("Ghost", "/rss/", "Posts")];
+  }
+  return [];
+}
+
+interface PageInfo {
+  candidates: Candidate[];
+  siteName: string | null;
+}
+
+// Feed candidates declared or linked in a page's markup
+export function pageCandidates(html: string, pageUrl: string): PageInfo {
+  const { document } = new JSDOM(html, { url: pageUrl }).window;
+  const candidates: Candidate[] = [];
+  const meta = (selector: string) => document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || null;
+  const siteName = meta('meta[property="og:site_name"]') || document.title.trim() || null;
+
+  // <link rel="alternate" type="application/rss+xml">, in every spelling of rel and
+  // type, plus rel="feed"
+  for (const link of Array.from(document.querySelectorAll<HTMLLinkElement>("link[rel][href]"))) {
+    const rel = Array.from(link.relList).map((token) => token.toLowerCase());
+    const type = (link.type || "").trim().toLowerCase();
+    const isFeed = (rel.includes("alternate") && FEED_LINK_TYPES.test(type) &&
+        // Plain XML or JSON alternates are usually feeds only when they say so
+        (!/^application\/(xml|json)$/.test(type) || FEED_HREF_PATTERN.test(link.href))) ||
+      rel.includes("feed");
+    const url = isFeed ? resolveUrl(link.getAttribute("href"), pageUrl) : null;
+    if (!url) continue;
+
+    candidates.push({
+      url,
+      title: link.title.trim() || undefined,
+      type: type ? feedTypeLabel(type) : undefined,
+      source: "link",
+    });
+  }
+
+  // Feed links in the page body, for sites that don't declare their feeds
+  for (const anchor of Array.from(document.querySelectorAll<HTMLAnchorElement>("a[href]"))) {
+    const href = anchor.getAttribute("href") || "";
+    const text = (anchor.textContent || anchor.title || "").trim();
+    if (!FEED_HREF_PATTERN.test(href) && !FEED_TEXT_PATTERN.test(text)) continue;
+    const url = resolveUrl(href, pageUrl);
+    if (!url) continue;
+
+    candidates.push({
+      url,
+      title: text && text.length <= 80 && !FEED_TEXT_PATTERN.test(text) ? text : undefined,
+      source: "anchor",
+    });
+  }
+
+  const generator = meta('meta[name="generator" i]');
+  if (generator) {
+    candidates.push(...generatorCandidates(generator, pageUrl));
+  }
+
+  return { candidates, siteName };
+}
+
+function latestItemDate(parsed: ParsedFeed): string | null {
+  let latest = 0;
+  for (const item of parsed.items || []) {
+    const time = new Date(item.isoDate || item.pubDate || "").getTime();
+    if (Number.isFinite(time) && time > latest) latest = time;
+  }
+  return latest ? new Date(latest).toISOString() : null;
+}
+
+// A feed as the add-feed dialog shows it, from the result of fetching it
+export function describeFeed(
+  candidate: Candidate,
+  result: ParseFeedResult | null,
+  siteName?: string | null
+): DiscoveredFeed {
+  const parsed = result?.success ? result.feed : undefined;
+  const description = parsed?.description?.trim();
+  return {
+    url: candidate.url,
+    title: parsed?.title?.trim() || candidate.title || (siteName ? `${siteName} feed` : "RSS Feed"),
+    type: result?.format === "json" ? "JSON Feed" : candidate.type || "RSS",
+    source: candidate.source,
+    platform: candidate.platform ?? null,
+    description: description || null,
+    siteUrl: parsed?.link || null,
+    iconUrl: parsed ? feedIconCandidates(parsed, candidate.url)[0] ?? null : null,
+    itemCount: parsed ? parsed.items?.length ?? 0 : null,
+    lastUpdated: parsed ? latestItemDate(parsed) : null,
+    verified: !!parsed,
+  };
+}
+
+// Credentials typed for a site only go to that site (the URL typed, or where
+// it redirected to), never to other hosts a page or a site rule points at
+function credentialsFor(candidateUrl: string, siteUrls: string[], credentials: FeedCredentials | null | undefined) {
+  try {
+    const origin = new URL(candidateUrl).origin;
+    return siteUrls.some((siteUrl) => new URL(siteUrl).origin === origin) ? credentials : null;
+  } catch {
+    return null;
+  }
+}
+
+// Fetch each candidate; keeps the ones that parse, and <link>-declared ones
+// that couldn't be fetched (they may need a login), in candidate order
+async function verifyCandidates(
+  candidates: Candidate[],
+  credentials: FeedCredentials | null | undefined,
+  siteUrls: string[],
+  siteName: string | null
+): Promise<DiscoveredFeed[]> {
+  const seen = new Set<string>();
+  const unique = candidates.filter((candidate) => {
+    if (seen.has(candidate.url)) return false;
+    seen.add(candidate.url);
+    return true;
+  }).slice(0, MAX_CANDIDATES);
+
+  const results = await mapConcurrency(unique, VERIFY_CONCURRENCY, async (candidate) => {
+    const result = await parseFeed(candidate.url, undefined, credentialsFor(candidate.url, siteUrls, credentials));
+    return { candidate, result };
+  });
+
+  return unique
+    .map((candidate) => {
+      const { result } = results.find((entry) => entry.candidate === candidate)!;
+      return describeFeed(candidate, result, siteName);
+    })
+    .filter((feed) => feed.verified || feed.source === "link");
+}
+
+// Find the feeds for a web page URL
+export async function discoverFeeds(url: string, credentials?: FeedCredentials | null): Promise<DiscoveredFeed[]> {
+  const candidates = siteRuleCandidates(url);
+  let siteName: string | null = null;
+  let pageUrl = url;
+
+  try {
+    const response = await safeFetch(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+      contentTypes: /html|xml/i,
+    });
+    if (response.ok) {
+      pageUrl = response.url;
+      const page = pageCandidates(await response.text(), pageUrl);
+      candidates.push(...page.candidates);
+      siteName = page.siteName;
+    }
+  } catch (error) {
+    // Site rules may still find something without the page
+    console.error("Error fetching page for feed discovery:", error);
+  }
+
+  const feeds = await verifyCandidates(candidates, credentials, [url, pageUrl], siteName);
+  if (feeds.length > 0) return feeds;
+
+  // Nothing declared anywhere; try the usual places, stopping at the first hit
+  for (const path of COMMON_PATHS) {
+    const candidate: Candidate = { url: new URL(path, pageUrl).toString(), source: "probe" };
+    const result = await parseFeed(candidate.url, undefined, credentialsFor(candidate.url, [url, pageUrl], credentials));
+    if (result.success && result.feed) {
+      return [describeFeed(candidate, result, siteName)];
+    }
+  }
+
+  return [];
+}
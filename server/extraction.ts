@@ -0,0 +1,112 @@
+import { JSDOM } from "jsdom";
+import { Readability } from "@mozilla/readability";
+import { storage } from "./storage";
+import { safeFetch } from "./outbound";
+import { pageImage } from "./images";
+import type { Article } from "@shared/schema";
+
+// Reader-mode extraction: download an article page and let Readability pull
+// out the main text. Used by the reader, /api/extract and, for feeds that only
+// publish teasers, at ingestion time. Results are stored on the article.
+
+// Requests to one host are spaced at least this far apart
+const HOST_INTERVAL_MS = 2000;
+// A request that would have to wait longer than this is refused instead
+const MAX_HOST_WAIT_MS = 20000;
+
+export interface ExtractedArticle {
+  content: string;
+  title: string | null;
+  excerpt: string | null;
+  byline: string | null;
+  siteName: string | null;
+  imageUrl: string | null;
+}
+
+// The page could not be downloaded
+export class ExtractionError extends Error {}
+
+// Too many extractions from the same host are already queued
+export class ExtractionRateLimitError extends ExtractionError {
+  constructor(host: string, readonly retryAfterMs: number) {
+    super(`Too many requests to ${host}; try again shortly`);
+  }
+}
+
+// When each host's next request may start
+const nextSlots = new Map<string, number>();
+
+// Wait for a turn to fetch from the URL's host
+async function waitForHost(url: string) {
+  const host = new URL(url).hostname.toLowerCase();
+  const now = Date.now();
+
+  // Forget hosts whose slots have passed
+  for (const [key, slot] of Array.from(nextSlots.entries())) {
+    if (slot <= now) nextSlots.delete(key);
+  }
+
+  const slot = Math.max(now, nextSlots.get(host) ?? now);
+  if (slot - now > MAX_HOST_WAIT_MS) {
+    throw new ExtractionRateLimitError(host, slot - now - MAX_HOST_WAIT_MS);
+  }
+
+  nextSlots.set(host, slot + HOST_INTERVAL_MS);
+  if (slot > now) {
+    await new Promise((resolve) => setTimeout(resolve, slot - now));
+  }
+}
+
+// Extract the readable content of a page; null when Readability finds none.
+// Throws ExtractionError, or BlockedRequestError from the outbound checks.
+export async function extractArticle(url: string): Promise<ExtractedArticle | null> {
+  await waitForHost(url);
+
+  const response = await safeFetch(url, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; ModernFeed/1.0)",
+    },
+    timeoutMs: 15000,
+    contentTypes: /html|xml/i,
+  });
+
+  if (!response.ok) {
+    throw new ExtractionError(`Failed to fetch article (status ${response.status})`);
+  }
+
+  const html = await response.text();
+  const dom = new JSDOM(html, { url: response.url });
+  try {
+    const article = new Readability(dom.window.document).parse();
+    if (!article?.content) return null;
+
+    return {
+      content: article.content,
+      title: article.title || null,
+      excerpt: article.excerpt || null,
+      byline: article.byline || null,
+      siteName: article.siteName || null,
+      imageUrl: pageImage(html, response.url),
+    };
+  } finally {
+    dom.window.close();
+  }
+}
+
+// Extract an article's page and store the result on it, taking the page's
+// image too when the article has none. Returns false when there was no
+// readable content.
+export async function extractAndStore(article: Pick<Article, "id" | "url" | "imageUrl">): Promise<boolean> {
+  const extracted = await extractArticle(article.url);
+  if (!extracted) return false;
+
+  await storage.updateArticle(article.id, {
+    extractedContent: extracted.content,
+    extractedByline: extracted.byline,
+    extractedExcerpt: extracted.excerpt,
+    extractedSiteName: extracted.siteName,
+    extractedAt: new Date(),
+    ...(!article.imageUrl && extracted.imageUrl ? { imageUrl: extracted.imageUrl } : {}),
+  });
+  return true;
+}
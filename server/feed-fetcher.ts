@@ -0,0 +1,496 @@
+import Parser from "rss-parser";
+import { storage } from "./storage";
+import { isJsonFeed, parseJsonFeed } from "./json-feed";
+import { scrapeWebPage } from "./web-page-feed";
+import { ingestItems, type IngestionReport } from "./ingestion";
+import { cleanUrl } from "./urls";
+import { openFeedCredentials, credentialHeaders } from "./secrets";
+import { safeFetch, BlockedRequestError, type SafeFetchOptions } from "./outbound";
+import { unsubscribeFromHub } from "./websub";
+import { iconIsStale, updateFeedIcon } from "./feed-icons";
+import { nextFetchTime, parseRetryAfter, getPollingHints, computeAdaptiveInterval } from "./polling";
+import type { Feed, FeedCredentials, WebPageSelectors } from "@shared/schema";
+
+const USER_AGENT = "ModernFeed RSS Reader/1.0";
+
+// Keep every <link>/<atom:link> so hub and self links can be read for WebSub,
+// and RFC 5005 paging links for backfilling history
+const parser = new Parser<{ [key: string]: any }>({
+  customFields: {
+    feed: [
+      ["atom:link", "atomLinks", { keepArray: true }],
+      ["link", "links", { keepArray: true }],
+      // Atom's square <icon> and wider <logo>, used for the feed's icon
+      "icon",
+      "logo",
+      // rss-parser's typings only allow plain field names for feed-level fields
+    ] as unknown as string[],
+    // Media RSS elements, used to find article images
+    item: [
+      ["media:content", "mediaContent", { keepArray: true }],
+      ["media:thumbnail", "mediaThumbnail", { keepArray: true }],
+      ["media:group", "mediaGroup", { keepArray: true }],
+      // The real article link behind FeedBurner's feedproxy redirects
+      ["feedburner:origLink", "origLink"],
+    ],
+  },
+});
+
+export type ParsedFeed = Awaited<ReturnType<typeof parser.parseString>>;
+
+// Cache validators remembered from a previous fetch
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface ParseFeedResult {
+  success: boolean;
+  feed?: ParsedFeed;
+  // "html" for web page feeds
+  format?: "xml" | "json" | "html";
+  // True when the server answered 304 and there is nothing new to parse
+  notModified?: boolean;
+  etag?: string | null;
+  lastModified?: string | null;
+  bytes?: number;
+  error?: string;
+  // When a 429/503 response asked us to come back later
+  retryAfter?: Date | null;
+  // WebSub hub and canonical topic URL advertised by the feed
+  hub?: string | null;
+  self?: string | null;
+  // Links to older entries (RFC 5005): the next page of a paged feed (or a JSON
+  // Feed's next_url) and the previous archive document of an archived feed
+  next?: string | null;
+  prevArchive?: string | null;
+  // Where the feed now lives, when every redirect on the way there was permanent
+  movedTo?: { url: string; statusCode: number } | null;
+  // The server answered 410 Gone
+  gone?: boolean;
+  // HTTP status of the final response, when there was one
+  status?: number;
+  // Things that parsed but look wrong, for the diagnostics page
+  warnings?: string[];
+  // The URL was refused by the outbound request checks (private address, size, content type)
+  blocked?: boolean;
+}
+
+const MAX_REDIRECTS = 5;
+const PERMANENT_REDIRECTS = [301, 308];
+
+// Feeds are sometimes served as text/html or text/plain; images, video and the like never are
+const FEED_CONTENT_TYPES = /xml|json|rss|atom|text\//i;
+// Big podcast feeds with years of episodes run to several megabytes
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+
+// fetch() that follows redirects itself so it can tell permanent moves from temporary ones.
+// Credential headers are only sent to the origin they were configured for.
+async function fetchFollowingRedirects(
+  url: string,
+  init: SafeFetchOptions & { headers: Record<string, string> },
+  credentialHeaderNames: string[] = []
+) {
+  let currentUrl = url;
+  let headers = init.headers;
+  let permanent = true;
+  let movedTo: ParseFeedResult["movedTo"] = null;
+  const origin = new URL(url).origin;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await safeFetch(currentUrl, { ...init, headers, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+      return { response, movedTo };
+    }
+
+    currentUrl = new URL(location, currentUrl).toString();
+    if (new URL(currentUrl).origin !== origin && credentialHeaderNames.length > 0) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(([name]) => !credentialHeaderNames.includes(name))
+      );
+    }
+    // Only a chain of permanent redirects from the stored URL moves the feed
+    permanent = permanent && PERMANENT_REDIRECTS.includes(response.status);
+    if (permanent) movedTo = { url: currentUrl, statusCode: response.status };
+  }
+
+  throw new Error("Too many redirects");
+}
+
+// Find rel="hub", "self", "next" and "prev-archive" links in the feed body or the HTTP Link header
+function findFeedLinks(feed: ParsedFeed, linkHeader: string | null) {
+  const links: { rel?: string; href?: string }[] = [];
+
+  for (const link of [...(feed.atomLinks || []), ...(feed.links || [])]) {
+    if (link && typeof link === "object" && link.$) {
+      links.push({ rel: link.$.rel, href: link.$.href });
+    }
+  }
+
+  if (linkHeader) {
+    for (const part of linkHeader.split(",")) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel=["']?([^"';]+)["']?/i);
+      if (match) links.push({ rel: match[2], href: match[1] });
+    }
+  }
+
+  const find = (rel: string) =>
+    links.find((link) => link.rel?.split(/\s+/).includes(rel) && link.href)?.href || null;
+
+  return { hub: find("hub"), self: find("self"), next: find("next"), prevArchive: find("prev-archive") };
+}
+
+// Paging links may be relative to the document they appear in
+function absoluteUrl(href: string | null | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return null;
+  }
+}
+
+// Problems worth pointing out in a feed that otherwise parsed fine
+function feedWarnings(feed: ParsedFeed, contentType: string | null): string[] {
+  const warnings: string[] = [];
+  const items: ParsedFeed["items"] = feed.items || [];
+
+  if (contentType && !/xml|json|rss|atom/i.test(contentType)) {
+    warnings.push(`Served as "${contentType}" rather than a feed content type`);
+  }
+  if (!feed.title) warnings.push("Feed has no title");
+  if (items.length === 0) warnings.push("Feed has no items");
+
+  const count = (predicate: (item: ParsedFeed["items"][number]) => boolean) => items.filter(predicate).length;
+  const checks: [number, string][] = [
+    [count((item) => !item.guid && !item.link), "have neither a guid nor a link, so edits can't be matched up"],
+    [count((item) => !item.link), "have no link"],
+    [count((item) => !item.title), "have no title"],
+    [count((item) => {
+      const date = item.isoDate || item.pubDate;
+      return !date || isNaN(new Date(date).getTime());
+    }), "have no usable publish date"],
+  ];
+  for (const [n, problem] of checks) {
+    if (n > 0) warnings.push(`${n} of ${items.length} items ${problem}`);
+  }
+
+  return warnings;
+}
+
+// Parse a feed body that has already been downloaded, e.g. a WebSub push.
+// Handles RSS, Atom and JSON Feed.
+export async function parseFeedContent(body: string, contentType?: string | null): Promise<ParsedFeed> {
+  return isJsonFeed(body, contentType) ? parseJsonFeed(body) : parser.parseString(body);
+}
+
+// Parse and fetch a feed, sending conditional GET headers when validators are
+// given and authenticating with the feed's credentials, if any. With selectors
+// the URL is a web page feed's page, scraped instead of parsed.
+export async function parseFeed(
+  url: string,
+  validators?: FeedValidators,
+  credentials?: FeedCredentials | null,
+  selectors?: WebPageSelectors | null
+): Promise<ParseFeedResult> {
+  try {
+    const authHeaders = credentialHeaders(credentials ?? null);
+    const headers: Record<string, string> = {
+      "User-Agent": USER_AGENT,
+      Accept: selectors
+        ? "text/html, application/xhtml+xml;q=0.9, */*;q=0.5"
+        : "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, text/xml;q=0.8, application/json;q=0.8, */*;q=0.5",
+      ...authHeaders,
+    };
+    if (validators?.etag) headers["If-None-Match"] = validators.etag;
+    if (validators?.lastModified) headers["If-Modified-Since"] = validators.lastModified;
+
+    const { response, movedTo } = await fetchFollowingRedirects(url, {
+      headers,
+      contentTypes: selectors ? /html|xml/i : FEED_CONTENT_TYPES,
+      maxBytes: MAX_FEED_BYTES,
+    }, Object.keys(authHeaders));
+
+    if (response.status === 304) {
+      return {
+        success: true,
+        status: 304,
+        notModified: true,
+        etag: response.headers.get("etag") || validators?.etag,
+        lastModified: response.headers.get("last-modified") || validators?.lastModified,
+        movedTo,
+      };
+    }
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: `Status code ${response.status}`,
+        status: response.status,
+        gone: response.status === 410,
+        movedTo,
+        retryAfter: response.status === 429 || response.status === 503
+          ? parseRetryAfter(response.headers.get("retry-after"))
+          : null,
+      };
+    }
+
+    const body = await response.text();
+    const contentType = response.headers.get("content-type");
+    if (selectors) {
+      const feed = scrapeWebPage(body, response.url, selectors);
+      return {
+        success: true,
+        status: response.status,
+        feed,
+        format: "html",
+        warnings: feedWarnings(feed, null),
+        etag: response.headers.get("etag"),
+        lastModified: response.headers.get("last-modified"),
+        bytes: Buffer.byteLength(body),
+        movedTo,
+      };
+    }
+
+    const format = isJsonFeed(body, contentType) ? "json" : "xml";
+    const feed = await parseFeedContent(body, contentType);
+    const links = findFeedLinks(feed, response.headers.get("link"));
+
+    const warnings = feedWarnings(feed, contentType);
+    if (movedTo) warnings.push(`Permanently redirected to ${movedTo.url}`);
+
+    return {
+      success: true,
+      status: response.status,
+      feed,
+      format,
+      warnings,
+      etag: response.headers.get("etag"),
+      lastModified: response.headers.get("last-modified"),
+      bytes: Buffer.byteLength(body),
+      hub: links.hub || feed.hub || null,
+      self: links.self || (format === "json" ? feed.feedUrl : null) || null,
+      next: absoluteUrl(links.next || feed.nextUrl, response.url || url),
+      prevArchive: absoluteUrl(links.prevArchive, response.url || url),
+      movedTo,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to parse feed",
+      blocked: error instanceof BlockedRequestError,
+    };
+  }
+}
+
+// Concurrent processing with limit
+export async function mapConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  const executing: Promise<void>[] = [];
+
+  for (const item of items) {
+    const p = Promise.resolve().then(() => fn(item)).then(result => {
+      results.push(result);
+    });
+    const e = p.then(() => {
+      executing.splice(executing.indexOf(e), 1);
+    });
+    executing.push(e);
+
+    if (executing.length >= limit) {
+      await Promise.race(executing);
+    }
+  }
+
+  await Promise.all(executing);
+  return results;
+}
+
+// Validators and size of a full response, stored so the next fetch can be conditional
+export function cacheValidators(result: ParseFeedResult) {
+  return {
+    etag: result.etag || null,
+    lastModified: result.lastModified || null,
+    contentLength: result.bytes ?? null,
+  };
+}
+
+// Count a failed fetch and back off before trying the feed again
+async function recordFailure(feed: Feed, error: string, retryAfter?: Date | null) {
+  const errorCount = (feed.errorCount || 0) + 1;
+  await storage.updateFeed(feed.id, {
+    errorCount,
+    lastError: error,
+    nextFetchAt: nextFetchTime({ ...feed, errorCount }, new Date(), { retryAfter }),
+  });
+}
+
+function movesCredentialsOffOrigin(feed: Feed, newUrl: string): boolean {
+  return Boolean(feed.credentials) && new URL(newUrl).origin !== new URL(feed.url).origin;
+}
+
+// Point the feed at its new URL after a permanent redirect. If another feed
+// already lives there the two are merged and that feed is returned instead.
+async function applyRedirect(
+  feed: Feed,
+  movedTo: NonNullable<ParseFeedResult["movedTo"]>
+): Promise<{ feed: Feed; merged: boolean } | null> {
+  const newUrl = cleanUrl(movedTo.url);
+  if (newUrl === feed.url) return { feed, merged: false };
+
+  await storage.recordFeedRedirect({
+    feedId: feed.id,
+    fromUrl: feed.url,
+    toUrl: newUrl,
+    statusCode: movedTo.statusCode,
+  });
+
+  const existing = await storage.getFeedByUrl(newUrl);
+  if (existing && existing.id !== feed.id) {
+    console.log(`[fetcher] feed ${feed.id} moved to ${newUrl}, already subscribed as ${existing.id}; merging`);
+    // Otherwise the hub keeps pushing to the callback of a feed that no longer exists
+    await unsubscribeFromHub(feed.id);
+    await storage.mergeFeeds(existing.id, [feed.id]);
+    return { feed: existing, merged: true };
+  }
+
+  console.log(`[fetcher] feed ${feed.id} moved permanently to ${newUrl}`);
+  const updated = await storage.updateFeed(feed.id, { url: newUrl });
+  return updated ? { feed: updated, merged: false } : null;
+}
+
+export interface FetchOutcome {
+  report: IngestionReport;
+  result: ParseFeedResult | null;
+  durationMs: number;
+  error: string | null;
+}
+
+// Fetch a single feed, store its items and log the attempt
+export async function fetchFeed(feed: Feed): Promise<FetchOutcome> {
+  const report: IngestionReport = { feedId: feed.id, new: 0, updated: 0, revised: 0, skipped: 0 };
+  const startedAt = Date.now();
+  let result: ParseFeedResult | null = null;
+  let error: string | null = null;
+
+  try {
+    result = await parseFeed(feed.url, feed, openFeedCredentials(feed), feed.scrapeSelectors);
+    const durationMs = Date.now() - startedAt;
+
+    if (result.movedTo && movesCredentialsOffOrigin(feed, result.movedTo.url)) {
+      // Following would send the stored credentials to the other host on every
+      // later fetch; the user has to re-add the feed there if they trust it
+      console.warn(`[fetcher] feed ${feed.id} has credentials; not following its move to ${result.movedTo.url}`);
+      result.warnings = [
+        ...(result.warnings || []),
+        `Not following the move to ${new URL(result.movedTo.url).origin} because the feed's credentials would go there too`,
+      ];
+    } else if (result.movedTo) {
+      const moved = await applyRedirect(feed, result.movedTo);
+      if (!moved) return { report, result, durationMs, error };
+      feed = moved.feed;
+      // The feed fetched is gone now; the attempt shows up in the history of the one it joined
+      if (moved.merged) {
+        await logFetch(feed, result, report, durationMs, error);
+        return { report, result, durationMs, error };
+      }
+    }
+
+    if (result.gone) {
+      // 410 means the publisher took the feed down on purpose; stop polling it
+      console.log(`[fetcher] feed ${feed.id} is gone (410), deactivating`);
+      error = result.error || "Gone";
+      await storage.updateFeed(feed.id, {
+        isActive: false,
+        inactiveReason: "The feed's server reported it as permanently gone (HTTP 410)",
+        lastError: error,
+        nextFetchAt: null,
+      });
+    } else if (result.success && result.notModified) {
+      // Nothing changed since the last fetch; count the body we didn't download
+      const now = new Date();
+      await storage.updateFeed(feed.id, {
+        lastFetched: now,
+        errorCount: 0,
+        lastError: null,
+        nextFetchAt: nextFetchTime({ ...feed, errorCount: 0 }, now),
+        etag: result.etag,
+        lastModified: result.lastModified,
+        bytesSaved: (feed.bytesSaved || 0) + (feed.contentLength || 0),
+      });
+    } else if (!result.success || !result.feed) {
+      error = result.error || "Failed to parse feed";
+      await recordFailure(feed, error, result.retryAfter);
+    } else {
+      Object.assign(report, await ingestItems(feed, result.feed.items || []));
+      if (iconIsStale(feed)) {
+        void updateFeedIcon(feed, result.feed);
+      }
+
+      // Re-derive the polling cadence now that we know what the feed has published
+      const publishDates = await storage.getRecentPublishDates(feed.id, 20);
+      const polling = {
+        ...getPollingHints(result.feed),
+        adaptiveInterval: computeAdaptiveInterval(publishDates),
+        errorCount: 0,
+      };
+
+      const now = new Date();
+      await storage.updateFeed(feed.id, {
+        ...polling,
+        lastError: null,
+        lastFetched: now,
+        nextFetchAt: nextFetchTime({ ...feed, ...polling }, now),
+        ...cacheValidators(result),
+      });
+    }
+
+    await logFetch(feed, result, report, durationMs, error);
+    return { report, result, durationMs, error };
+  } catch (feedError) {
+    console.error(`Error refreshing feed ${feed.id}:`, feedError);
+    error = feedError instanceof Error ? feedError.message : "Failed to refresh feed";
+    const durationMs = Date.now() - startedAt;
+    await recordFailure(feed, error);
+    await logFetch(feed, result, report, durationMs, error);
+    return { report, result, durationMs, error };
+  }
+}
+
+async function logFetch(
+  feed: Feed,
+  result: ParseFeedResult | null,
+  report: IngestionReport,
+  durationMs: number,
+  error: string | null
+) {
+  try {
+    await storage.addFetchLogEntry({
+      feedId: feed.id,
+      status: result?.status ?? null,
+      durationMs,
+      bytes: result?.bytes ?? null,
+      itemsSeen: result?.feed?.items?.length ?? 0,
+      newItems: report.new,
+      error,
+    });
+  } catch (logError) {
+    console.error(`Error logging fetch of feed ${feed.id}:`, logError);
+  }
+}
+
+// Fetch a single feed and store its items, reporting what changed
+export async function refreshFeed(feed: Feed): Promise<IngestionReport> {
+  return (await fetchFeed(feed)).report;
+}
+
+// Refresh several feeds, 5 at a time, returning one ingestion report per feed
+export function refreshFeeds(feeds: Feed[]): Promise<IngestionReport[]> {
+  return mapConcurrency(feeds, 5, refreshFeed);
+}
+
+// Total number of new articles across ingestion reports
+export function countNewArticles(reports: IngestionReport[]): number {
+  return reports.reduce((total, report) => total + report.new, 0);
+}
@@ -0,0 +1,226 @@
+import sharp from "sharp";
+import { storage } from "./storage";
+import { safeFetch } from "./outbound";
+import type { ParsedFeed } from "./feed-fetcher";
+import type { Feed, FeedIcon } from "@shared/schema";
+
+// Feed icons are looked up by the server and kept in feed_icons, so the client
+// loads them from /api/feeds/:id/icon instead of a third-party favicon service.
+// Candidates are tried in order: icons the feed declares (Atom <icon>, JSON
+// Feed favicon, RSS <image>, iTunes artwork, Atom <logo>), then the site's
+// <link rel="icon"> and apple-touch-icon, then /favicon.ico.
+
+const USER_AGENT = "ModernFeed RSS Reader/1.0";
+
+// Raster icons are scaled down to fit this many pixels square
+const ICON_SIZE = 64;
+const MAX_SOURCE_BYTES = 5 * 1024 * 1024;
+// ICO and SVG files are stored as they are, so they have to be small already
+const MAX_STORED_BYTES = 256 * 1024;
+
+// Icons are looked up again this long after the last lookup, when the feed is next polled
+const ICON_REFRESH_MS = 7 * 24 * 60 * 60 * 1000;
+// Feeds whose icon the poll hasn't refreshed in this long (inactive feeds,
+// newsletters, feeds that always answer 304) are picked up by the scheduler
+const ICON_SWEEP_MS = 2 * ICON_REFRESH_MS;
+// Feeds handled per scheduler tick, to keep the background work light
+const ICONS_PER_RUN = 5;
+
+type StoredIcon = Pick<FeedIcon, "contentType" | "data">;
+
+function resolveUrl(url: unknown, base: string): string | null {
+  if (typeof url !== "string" || !url.trim()) return null;
+  try {
+    const resolved = new URL(url.trim(), base);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Icons the feed document itself points to
+export function feedIconCandidates(parsed: ParsedFeed, feedUrl: string): string[] {
+  return [
+    parsed.icon,
+    parsed.favicon,
+    parsed.image?.url,
+    parsed.itunes?.image,
+    parsed.logo,
+  ]
+    .map((url) => resolveUrl(url, feedUrl))
+    .filter((url): url is string => !!url);
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? match[1] ?? match[2] ?? match[3] : undefined;
+}
+
+// <link rel="icon"> (largest first) followed by apple-touch-icons, from a page's <head>
+export function pageIconCandidates(html: string, pageUrl: string): string[] {
+  const head = html.slice(0, 200_000);
+  const icons: { url: string; size: number }[] = [];
+  const touchIcons: string[] = [];
+
+  const linkRegex = /<link\b[^>]*>/gi;
+  let match;
+  while ((match = linkRegex.exec(head)) !== null) {
+    const tag = match[0];
+    const rel = (attribute(tag, "rel") || "").toLowerCase().split(/\s+/);
+    const url = resolveUrl(attribute(tag, "href"), pageUrl);
+    if (!url) continue;
+
+    if (rel.includes("apple-touch-icon") || rel.includes("apple-touch-icon-precomposed")) {
+      touchIcons.push(url);
+    } else if (rel.includes("icon")) {
+      // "any" is what SVG icons declare; they scale to every size
+      const sizes = (attribute(tag, "sizes") || "").toLowerCase();
+      const size = sizes === "any" ? Infinity : parseInt(sizes, 10) || 0;
+      icons.push({ url, size });
+    }
+  }
+
+  return [...icons.sort((a, b) => b.size - a.size).map((icon) => icon.url), ...touchIcons];
+}
+
+function isIco(data: Buffer): boolean {
+  return data.length > 4 && data[0] === 0 && data[1] === 0 && data[2] === 1 && data[3] === 0;
+}
+
+function isSvg(data: Buffer, contentType: string): boolean {
+  if (contentType.includes("svg")) return true;
+  const start = data.subarray(0, 1024).toString("utf8").trimStart();
+  return /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg\b/i.test(start);
+}
+
+// Download a candidate and turn it into something worth storing, or null
+async function loadIcon(url: string): Promise<StoredIcon | null> {
+  try {
+    const response = await safeFetch(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: "image/*" },
+      maxBytes: MAX_SOURCE_BYTES,
+    });
+    if (!response.ok || response.body.length === 0) return null;
+
+    const data = response.body;
+    const contentType = (response.headers.get("content-type") || "").toLowerCase();
+    if (isIco(data)) {
+      return data.length <= MAX_STORED_BYTES ? { contentType: "image/x-icon", data } : null;
+    }
+    if (isSvg(data, contentType)) {
+      return data.length <= MAX_STORED_BYTES ? { contentType: "image/svg+xml", data } : null;
+    }
+
+    // Anything else has to be an image sharp can read; this also rejects HTML error pages
+    const metadata = await sharp(data).metadata();
+    if (!metadata.width || !metadata.height || metadata.width < 8 || metadata.height < 8) return null;
+
+    const resized = await sharp(data)
+      .resize(ICON_SIZE, ICON_SIZE, { fit: "inside", withoutEnlargement: true })
+      .png()
+      .toBuffer();
+    return { contentType: "image/png", data: resized };
+  } catch {
+    return null;
+  }
+}
+
+// Icon candidates from the feed's website
+async function siteIconCandidates(siteUrl: string): Promise<string[]> {
+  const candidates: string[] = [];
+  let pageUrl = siteUrl;
+
+  try {
+    const response = await safeFetch(siteUrl, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html" },
+      contentTypes: /html/i,
+    });
+    if (response.ok) {
+      pageUrl = response.url;
+      candidates.push(...pageIconCandidates(await response.text(), pageUrl));
+    }
+  } catch {
+    // Fall through to /favicon.ico
+  }
+
+  candidates.push(new URL("/favicon.ico", pageUrl).toString());
+  return candidates;
+}
+
+// Find the feed's icon: from the parsed feed when the caller has just parsed
+// it, then from the icon stored last time, then from the site.
+export async function resolveFeedIcon(
+  feed: Pick<Feed, "url" | "siteUrl" | "favicon">,
+  parsed?: ParsedFeed | null
+): Promise<{ sourceUrl: string; icon: StoredIcon } | null> {
+  const tried = new Set<string>();
+  const tryCandidates = async (candidates: string[]) => {
+    for (const url of candidates) {
+      if (tried.has(url)) continue;
+      tried.add(url);
+      const icon = await loadIcon(url);
+      if (icon) return { sourceUrl: url, icon };
+    }
+    return null;
+  };
+
+  const fromFeed = await tryCandidates([
+    ...(parsed ? feedIconCandidates(parsed, feed.url) : []),
+    ...(feed.favicon ? [feed.favicon] : []),
+  ]);
+  if (fromFeed) return fromFeed;
+
+  const siteUrl = resolveUrl(feed.siteUrl || parsed?.link, feed.url) || new URL("/", feed.url).toString();
+  return tryCandidates(await siteIconCandidates(siteUrl));
+}
+
+// Look up a feed's icon and store it. When nothing is found an icon stored
+// earlier is kept, so a site being down doesn't lose it. Never throws.
+export async function updateFeedIcon(feed: Pick<Feed, "id" | "url" | "siteUrl" | "favicon">, parsed?: ParsedFeed | null): Promise<boolean> {
+  try {
+    const resolved = await resolveFeedIcon(feed, parsed);
+    if (resolved) {
+      await storage.saveFeedIcon(feed.id, resolved.icon);
+      await storage.updateFeed(feed.id, { favicon: resolved.sourceUrl, iconCheckedAt: new Date() });
+      return true;
+    }
+
+    const existing = await storage.getFeedIcon(feed.id);
+    await storage.updateFeed(feed.id, {
+      iconCheckedAt: new Date(),
+      ...(!existing && { favicon: null }),
+    });
+    return false;
+  } catch (error) {
+    console.error(`[icons] Error updating icon for feed ${feed.id}:`, error);
+    return false;
+  }
+}
+
+let refreshing: Promise<void> | null = null;
+
+async function refreshIcons(): Promise<void> {
+  const feeds = await storage.getFeedsWithStaleIcons(new Date(Date.now() - ICON_SWEEP_MS), ICONS_PER_RUN);
+
+  // No feed fetch here: that is left to the poll, on the feed's own schedule
+  for (const feed of feeds) {
+    await updateFeedIcon(feed);
+  }
+}
+
+// Whether the poll that just parsed this feed should look up its icon again
+export function iconIsStale(feed: Pick<Feed, "iconCheckedAt">): boolean {
+  return !feed.iconCheckedAt || feed.iconCheckedAt.getTime() < Date.now() - ICON_REFRESH_MS;
+}
+
+// Look up icons for a few feeds that have none yet or that polling hasn't
+// refreshed in two weeks. Called from the scheduler without waiting, so it never holds up
+// polling; a run still going when the next one is due covers it.
+export async function refreshStaleIcons(): Promise<void> {
+  refreshing ??= refreshIcons()
+    .catch((error) => console.error("[icons] Error refreshing feed icons:", error))
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
@@ -0,0 +1,195 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import sharp from "sharp";
+import { safeFetch } from "./outbound";
+
+// Images in articles are loaded through /api/image-proxy so that readers'
+// browsers never contact third-party hosts, http images work on https pages
+// and hotlink-protected images still load. Fetched images are kept on disk,
+// evicting the least recently used once the cache outgrows its limit.
+
+const CACHE_DIR = path.resolve(process.env.IMAGE_CACHE_DIR || ".cache/images");
+const MAX_CACHE_BYTES = parseInt(process.env.IMAGE_CACHE_MAX_MB || "500", 10) * 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+// Thumbnail widths the proxy will resize to; requests are rounded up to one of
+// these so the cache doesn't fill with near-identical sizes
+const THUMBNAIL_WIDTHS = [160, 320, 480, 640, 960, 1280];
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+};
+const CONTENT_TYPES = Object.fromEntries(Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]));
+
+// Formats sharp reports for the raster types above
+const SHARP_FORMATS: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  heif: "image/avif",
+};
+
+export interface CachedImage {
+  body: Buffer;
+  contentType: string;
+  etag: string;
+}
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  contentType: string;
+}
+
+// Map order is recency: entries are re-inserted when used, so the first is the least recent
+const entries = new Map<string, CacheEntry>();
+let cacheBytes = 0;
+let loaded: Promise<void> | null = null;
+const inFlight = new Map<string, Promise<CachedImage>>();
+
+// Rebuild the index from the cache directory, oldest files first
+function loadIndex(): Promise<void> {
+  loaded ??= (async () => {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    const files = await fs.readdir(CACHE_DIR);
+    const stats = await Promise.all(files.map(async (file) => {
+      const stat = await fs.stat(path.join(CACHE_DIR, file)).catch(() => null);
+      return { file, stat };
+    }));
+
+    stats
+      .filter(({ stat }) => stat?.isFile())
+      .sort((a, b) => a.stat!.mtimeMs - b.stat!.mtimeMs)
+      .forEach(({ file, stat }) => {
+        const [key, ext] = file.split(".");
+        const contentType = CONTENT_TYPES[ext];
+        if (!contentType) return;
+        entries.set(key, { file, size: stat!.size, contentType });
+        cacheBytes += stat!.size;
+      });
+  })();
+  return loaded;
+}
+
+async function evict() {
+  for (const [key, entry] of Array.from(entries.entries())) {
+    if (cacheBytes <= MAX_CACHE_BYTES) break;
+    entries.delete(key);
+    cacheBytes -= entry.size;
+    await fs.unlink(path.join(CACHE_DIR, entry.file)).catch(() => undefined);
+  }
+}
+
+async function readCached(key: string): Promise<CachedImage | null> {
+  const entry = entries.get(key);
+  if (!entry) return null;
+
+  try {
+    const body = await fs.readFile(path.join(CACHE_DIR, entry.file));
+    entries.delete(key);
+    entries.set(key, entry);
+    // Keep the file's mtime as the recency order for the next restart
+    const now = new Date();
+    void fs.utimes(path.join(CACHE_DIR, entry.file), now, now).catch(() => undefined);
+    return { body, contentType: entry.contentType, etag: key };
+  } catch {
+    entries.delete(key);
+    cacheBytes -= entry.size;
+    return null;
+  }
+}
+
+async function writeCached(key: string, image: Omit<CachedImage, "etag">) {
+  const file = `${key}.${EXTENSIONS[image.contentType]}`;
+  await fs.writeFile(path.join(CACHE_DIR, file), image.body);
+
+  const previous = entries.get(key);
+  if (previous) cacheBytes -= previous.size;
+  entries.set(key, { file, size: image.body.length, contentType: image.contentType });
+  cacheBytes += image.body.length;
+  await evict();
+}
+
+// Round a requested width up to the nearest thumbnail size
+export function thumbnailWidth(width: number): number {
+  return THUMBNAIL_WIDTHS.find((size) => size >= width) ?? THUMBNAIL_WIDTHS[THUMBNAIL_WIDTHS.length - 1];
+}
+
+// Download an image and check it really is one of the image types we serve
+async function fetchImage(url: string): Promise<Omit<CachedImage, "etag">> {
+  const response = await safeFetch(url, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (compatible; ModernFeed/1.0)",
+      Accept: "image/avif,image/webp,image/*;q=0.8",
+      // Hotlink protection usually accepts requests that appear to come from the site itself
+      Referer: `${new URL(url).origin}/`,
+    },
+    contentTypes: /^image\//i,
+    maxBytes: MAX_IMAGE_BYTES,
+  });
+  if (!response.ok) {
+    throw new Error(`Status code ${response.status}`);
+  }
+
+  const declared = (response.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+  if (declared === "image/svg+xml") {
+    return { body: response.body, contentType: declared };
+  }
+
+  // Trust the bytes, not the header
+  const metadata = await sharp(response.body).metadata().catch(() => null);
+  const isHeic = metadata?.format === "heif" && metadata.compression !== "av1";
+  const contentType = metadata?.format && !isHeic ? SHARP_FORMATS[metadata.format] : undefined;
+  if (!contentType) {
+    throw new Error(`Unsupported image type ${declared || "unknown"}`);
+  }
+  return { body: response.body, contentType };
+}
+
+async function resize(image: Omit<CachedImage, "etag">, width: number): Promise<Omit<CachedImage, "etag">> {
+  // Vector and animated images are sent as they are
+  if (image.contentType === "image/svg+xml" || image.contentType === "image/gif") return image;
+
+  const body = await sharp(image.body)
+    .rotate()
+    .resize({ width, withoutEnlargement: true })
+    .webp({ quality: 80 })
+    .toBuffer();
+  return { body, contentType: "image/webp" };
+}
+
+// An image from the cache, fetching (and resizing, when a width is given) on a miss
+export async function getProxiedImage(url: string, width?: number): Promise<CachedImage> {
+  await loadIndex();
+
+  const key = crypto.createHash("sha256").update(`${url}\n${width ?? ""}`).digest("hex");
+  const cached = await readCached(key);
+  if (cached) return cached;
+
+  // Several articles often share an image; fetch it once
+  let pending = inFlight.get(key);
+  if (!pending) {
+    pending = (async () => {
+      const original = width
+        ? (await getProxiedImage(url)) // the original is cached too, for the reader
+        : await fetchImage(url);
+      const image = width ? await resize(original, width) : original;
+      await writeCached(key, image);
+      return { ...image, etag: key };
+    })().finally(() => inFlight.delete(key));
+    inFlight.set(key, pending);
+  }
+  return pending;
+}
+
+export async function getImageCacheStats() {
+  await loadIndex();
+  return { files: entries.size, bytes: cacheBytes, maxBytes: MAX_CACHE_BYTES };
+}
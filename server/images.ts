@@ -0,0 +1,190 @@
+import type { FeedItem, MediaElement } from "./ingestion";
+import { safeFetch } from "./outbound";
+
+// Lead image selection for articles. Candidates come from Media RSS, iTunes,
+// JSON Feed, enclosures and the item's own HTML; the largest real image wins.
+
+interface ImageCandidate {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+// Score given to candidates whose size we don't know, roughly a 400x300 image.
+// Known-large images beat it, small known thumbnails lose to it.
+const UNKNOWN_SIZE_SCORE = 400 * 300;
+
+const TRACKING_PIXEL_PATTERN =
+  /(pixel|beacon|tracking|spacer|blank)\.(gif|png)|\/1x1\.|feeds\.feedburner\.com\/~r\/|feedsportal\.com|stats\.wordpress\.com|doubleclick\.net|\/b\.gif|google-analytics\.com/i;
+
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|gif|webp|avif)(\?|#|$)/i;
+
+function toNumber(value: unknown): number | undefined {
+  const n = parseInt(String(value ?? ""), 10);
+  return Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+function resolveUrl(url: string, base?: string): string | null {
+  try {
+    const resolved = new URL(url, base);
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isTrackingPixel(candidate: ImageCandidate): boolean {
+  if ((candidate.width !== undefined && candidate.width <= 2) ||
+      (candidate.height !== undefined && candidate.height <= 2)) {
+    return true;
+  }
+  return TRACKING_PIXEL_PATTERN.test(candidate.url);
+}
+
+// media:content / media:thumbnail elements as parsed by xml2js
+function mediaCandidates(elements: MediaElement[] | undefined, thumbnailsOnly = false): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+
+  for (const element of elements || []) {
+    const attrs = element?.$;
+    if (!attrs?.url) continue;
+
+    // media:content can be video or audio; only keep images
+    const isImage = thumbnailsOnly ||
+      attrs.medium === "image" ||
+      String(attrs.type || "").startsWith("image/") ||
+      (!attrs.medium && !attrs.type && IMAGE_EXTENSION_PATTERN.test(attrs.url));
+
+    if (isImage) {
+      candidates.push({ url: attrs.url, width: toNumber(attrs.width), height: toNumber(attrs.height) });
+    }
+
+    // Thumbnails nested inside a media:content element
+    candidates.push(...mediaCandidates(element["media:thumbnail"], true));
+  }
+
+  return candidates;
+}
+
+// <img> tags in the item's HTML, in document order
+function htmlImageCandidates(html: string | undefined): ImageCandidate[] {
+  if (!html) return [];
+
+  const candidates: ImageCandidate[] = [];
+  const imgRegex = /<img\b[^>]*>/gi;
+  let match;
+  while ((match = imgRegex.exec(html)) !== null) {
+    const tag = match[0];
+    const src = tag.match(/\ssrc=["']([^"']+)["']/i)?.[1];
+    if (!src) continue;
+
+    candidates.push({
+      url: src.replace(/&amp;/g, "&"),
+      width: toNumber(tag.match(/\swidth=["']?(\d+)/i)?.[1]),
+      height: toNumber(tag.match(/\sheight=["']?(\d+)/i)?.[1]),
+    });
+  }
+
+  return candidates;
+}
+
+// Candidates in priority order; earlier ones win ties
+function collectCandidates(item: FeedItem): ImageCandidate[] {
+  const candidates: ImageCandidate[] = [];
+
+  if (item.image) {
+    candidates.push({ url: item.image });
+  }
+
+  candidates.push(...mediaCandidates(item.mediaContent));
+  candidates.push(...mediaCandidates(item.mediaThumbnail, true));
+  for (const group of (item.mediaGroup || []) as MediaElement[]) {
+    candidates.push(...mediaCandidates(group["media:content"]));
+    candidates.push(...mediaCandidates(group["media:thumbnail"], true));
+  }
+
+  const enclosure = item.enclosure;
+  if (enclosure?.url && (String(enclosure.type || "").startsWith("image/") ||
+      (!enclosure.type && IMAGE_EXTENSION_PATTERN.test(enclosure.url)))) {
+    candidates.push({ url: enclosure.url });
+  }
+
+  candidates.push(...htmlImageCandidates(item["content:encoded"] || item.content));
+
+  if (item.itunes?.image) {
+    candidates.push({ url: item.itunes.image });
+  }
+
+  return candidates;
+}
+
+function score(candidate: ImageCandidate): number {
+  if (candidate.width && candidate.height) return candidate.width * candidate.height;
+  if (candidate.width) return candidate.width * candidate.width * 0.75;
+  return UNKNOWN_SIZE_SCORE;
+}
+
+// Pick the best lead image for a feed item, or null if it has none
+export function extractLeadImage(item: FeedItem): string | null {
+  let best: ImageCandidate | null = null;
+
+  for (const candidate of collectCandidates(item)) {
+    const url = resolveUrl(candidate.url, item.link);
+    if (!url) continue;
+
+    const resolved = { ...candidate, url };
+    if (isTrackingPixel(resolved)) continue;
+
+    if (!best || score(resolved) > score(best)) {
+      best = resolved;
+    }
+  }
+
+  return best?.url ?? null;
+}
+
+function metaContent(html: string, property: string): string | undefined {
+  const patterns = [
+    new RegExp(`<meta[^>]+(?:property|name)=["']${property}["'][^>]*content=["']([^"']+)["']`, "i"),
+    new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]*(?:property|name)=["']${property}["']`, "i"),
+  ];
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match) return match[1].replace(/&amp;/g, "&");
+  }
+  return undefined;
+}
+
+// Last resort: the og:image (or twitter:image) of the article page itself
+export async function fetchPageImage(pageUrl: string): Promise<string | null> {
+  try {
+    const response = await safeFetch(pageUrl, {
+      headers: {
+        "User-Agent": "Mozilla/5.0 (compatible; ModernFeed/1.0)",
+        Accept: "text/html",
+      },
+      timeoutMs: 8000,
+      contentTypes: /html/i,
+    });
+    if (!response.ok || !response.headers.get("content-type")?.includes("html")) {
+      return null;
+    }
+
+    return pageImage(await response.text(), response.url || pageUrl);
+  } catch {
+    return null;
+  }
+}
+
+// The og:image (or twitter:image) declared in a page's markup
+export function pageImage(html: string, pageUrl: string): string | null {
+  // The meta tags live in <head>, so there's no need to search the whole page
+  const head = html.slice(0, 200_000);
+  const image = metaContent(head, "og:image:secure_url") ||
+    metaContent(head, "og:image") ||
+    metaContent(head, "twitter:image");
+  if (!image) return null;
+
+  const url = resolveUrl(image, pageUrl);
+  return url && !isTrackingPixel({ url }) ? url : null;
+}
@@ -1,6 +1,8 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
+import { startScheduler } from "./scheduler";
+import { startNewsletterListener } from "./newsletters";
 import { createServer } from "http";
 
 const app = express();
@@ -12,15 +14,23 @@ declare module "http" {
   }
 }
 
+// WebSub pushes are read as raw bytes by their own route, since their
+// signature is computed over the body exactly as sent
+function exceptWebSubPushes(parser: express.RequestHandler): express.RequestHandler {
+  return (req, res, next) => (req.path.startsWith("/api/websub/") ? next() : parser(req, res, next));
+}
+
 app.use(
-  express.json({
-    verify: (req, _res, buf) => {
-      req.rawBody = buf;
-    },
-  }),
+  exceptWebSubPushes(
+    express.json({
+      verify: (req, _res, buf) => {
+        req.rawBody = buf;
+      },
+    }),
+  ),
 );
 
-app.use(express.urlencoded({ extended: false }));
+app.use(exceptWebSubPushes(express.urlencoded({ extended: false })));
 
 export function log(message: string, source = "express") {
   const formattedTime = new Date().toLocaleTimeString("en-US", {
@@ -92,6 +102,8 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startScheduler();
+      startNewsletterListener();
     },
   );
 })();
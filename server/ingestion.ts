@@ -0,0 +1,237 @@
+import { storage } from "./storage";
+import { extractLeadImage, fetchPageImage } from "./images";
+import { mapConcurrency, type ParsedFeed } from "./feed-fetcher";
+import { textToHtml } from "./json-feed";
+import { cleanUrl, canonicalizeUrl } from "./urls";
+import { clusterArticles, contentFingerprint } from "./clustering";
+import { extractAndStore } from "./extraction";
+import type { Feed, InsertArticle } from "@shared/schema";
+
+// Most items taken from a single fetch, push or import of a feed, unless the feed sets its own limit
+export const MAX_ITEMS_PER_FETCH = 50;
+
+export type FeedItem = ParsedFeed["items"][number];
+
+// What happened to a feed's items during one ingestion run
+export interface IngestionReport {
+  feedId: string;
+  new: number;
+  updated: number;
+  // Updated articles whose title or content was edited by the publisher
+  revised: number;
+  skipped: number;
+}
+
+// Helper to extract a summary from content
+export function extractSummary(content: string | undefined, maxLength = 200): string | null {
+  if (!content) return null;
+
+  // Strip HTML tags
+  const text = content.replace(/<[^>]*>/g, "").trim();
+
+  if (text.length <= maxLength) return text;
+
+  // Find the last space before maxLength to avoid cutting words
+  const lastSpace = text.lastIndexOf(" ", maxLength);
+  return text.substring(0, lastSpace > 0 ? lastSpace : maxLength) + "...";
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// itunes:duration is seconds, MM:SS or HH:MM:SS
+export function parseDuration(value: unknown): number | null {
+  if (value === undefined || value === null || value === "") return null;
+
+  const parts = String(value).trim().split(":").map(Number);
+  if (parts.some((part) => !Number.isFinite(part))) return null;
+
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds > 0 ? Math.round(seconds) : null;
+}
+
+// Media types by file extension, for enclosures without a usable type attribute
+const ENCLOSURE_EXTENSION_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/opus",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+};
+
+// The enclosure's declared type, or one guessed from its URL when it has none
+// or only a generic one such as application/octet-stream
+function enclosureType(url: string, declared: string): string {
+  if (declared.startsWith("audio/") || declared.startsWith("video/")) return declared;
+  try {
+    const extension = new URL(url).pathname.split(".").pop()?.toLowerCase() || "";
+    return ENCLOSURE_EXTENSION_TYPES[extension] || declared;
+  } catch {
+    return declared;
+  }
+}
+
+// Audio or video enclosure of an item; image enclosures are handled as lead images
+function mediaEnclosure(item: FeedItem) {
+  const enclosure = item.enclosure;
+  const type = enclosure?.url ? enclosureType(enclosure.url, String(enclosure.type || "").toLowerCase()) : "";
+  if (!enclosure?.url || !(type.startsWith("audio/") || type.startsWith("video/"))) {
+    return { enclosureUrl: null, enclosureType: null, enclosureLength: null, duration: null };
+  }
+
+  const length = Number(enclosure.length);
+  return {
+    enclosureUrl: enclosure.url,
+    enclosureType: type,
+    enclosureLength: Number.isFinite(length) && length > 0 ? length : null,
+    duration: parseDuration(item.itunes?.duration ?? item.duration),
+  };
+}
+
+// A Media RSS element (<media:group>, <media:content>, <media:thumbnail>) as parsed by xml2js
+export interface MediaElement {
+  $?: { url?: string; medium?: string; type?: string; width?: string; height?: string };
+  "media:content"?: MediaElement[];
+  "media:thumbnail"?: MediaElement[];
+  // Plain text, or { _: text, $: attributes } when the element has attributes
+  "media:description"?: (string | { _?: string })[];
+}
+
+// Plain-text media:description, used by YouTube and other video feeds that
+// carry no content of their own
+function mediaDescription(item: FeedItem): string | undefined {
+  const elements: (string | { _?: string })[] = [
+    ...(item.mediaGroup || []).flatMap((group: MediaElement) => group["media:description"] || []),
+    ...(item.mediaContent || []).flatMap((content: MediaElement) => content["media:description"] || []),
+  ];
+  for (const element of elements) {
+    const text = typeof element === "string" ? element : element?._;
+    if (text?.trim()) return text.trim();
+  }
+  return undefined;
+}
+
+// Map a parsed RSS/Atom/JSON Feed item onto an article row
+export function normalizeItem(feed: Feed, item: FeedItem, fetchedAt = new Date()): InsertArticle {
+  const description = mediaDescription(item);
+  const title = item.title || "Untitled";
+  const link = item.origLink || item.link;
+  const url = link ? cleanUrl(link, { stripReferrals: true }) : "";
+  const content = item["content:encoded"] || item.content || (description ? textToHtml(description) : null);
+
+  return {
+    feedId: feed.id,
+    title,
+    url,
+    content,
+    summary: extractSummary(item.contentSnippet || item.content || description),
+    author: item.creator || item.author || null,
+    imageUrl: extractLeadImage(item),
+    publishedAt: parseDate(item.isoDate) || parseDate(item.pubDate) || fetchedAt,
+    isRead: false,
+    isBookmarked: false,
+    guid: item.guid || item.link || item.title || "",
+    ...mediaEnclosure(item),
+    canonicalUrl: url ? canonicalizeUrl(url, { stripReferrals: true }) : null,
+    fingerprint: contentFingerprint(title, content || item.contentSnippet),
+  };
+}
+
+// Normalise a batch of items, keeping the first occurrence of each guid
+export function normalizeItems(feed: Feed, items: FeedItem[], limit = feed.itemLimit ?? MAX_ITEMS_PER_FETCH): InsertArticle[] {
+  const fetchedAt = new Date();
+  const seen = new Set<string>();
+  const normalized: InsertArticle[] = [];
+
+  for (const item of items.slice(0, limit)) {
+    const article = normalizeItem(feed, item, fetchedAt);
+    if (seen.has(article.guid)) continue;
+    seen.add(article.guid);
+    normalized.push(article);
+  }
+
+  return normalized;
+}
+
+// Runs in the background so ingestion doesn't wait on article pages
+async function fillPageImages(items: { id: string; url: string }[]) {
+  try {
+    await mapConcurrency(items, 3, async (article) => {
+      const imageUrl = await fetchPageImage(article.url);
+      if (imageUrl) {
+        await storage.updateArticle(article.id, { imageUrl });
+      }
+    });
+  } catch (error) {
+    console.error("Error fetching article page images:", error);
+  }
+}
+
+// Runs in the background: store the page text of new articles for feeds that only publish teasers
+async function fillFullContent(items: { id: string; url: string; imageUrl: string | null }[]) {
+  await mapConcurrency(items, 3, async (article) => {
+    try {
+      await extractAndStore(article);
+    } catch (error) {
+      console.error(`Error extracting full content of article ${article.id}:`, error);
+    }
+  });
+}
+
+export interface IngestOptions {
+  // Most items to take; defaults to the feed's item limit
+  limit?: number;
+  // Fetch article pages for full content and missing images in the background (default true)
+  fetchPages?: boolean;
+}
+
+// Store a feed's items with one batched upsert and report what changed
+export async function ingestItems(
+  feed: Feed,
+  items: FeedItem[],
+  { limit, fetchPages = true }: IngestOptions = {}
+): Promise<IngestionReport> {
+  const normalized = normalizeItems(feed, items, limit);
+  // Items deleted by retention cleanup stay deleted
+  const purged = await storage.touchPurgedGuids(feed.id, normalized.map((article) => article.guid), new Date());
+  const kept = purged.size > 0 ? normalized.filter((article) => !purged.has(article.guid)) : normalized;
+  const { inserted, updated, revised, newArticles } = await storage.upsertArticles(kept);
+
+  if (newArticles.length > 0) {
+    try {
+      await clusterArticles(newArticles.map((article) => article.id));
+    } catch (error) {
+      // Clustering is a nicety; never fail ingestion over it
+      console.error("Error clustering articles:", error);
+    }
+  }
+
+  const withUrls = fetchPages ? newArticles.filter((article) => article.url) : [];
+  if (feed.fetchFullContent && withUrls.length > 0) {
+    void fillFullContent(withUrls);
+  } else {
+    // Fall back to the page's og:image for new articles the feed gave no image for
+    const missingImages = withUrls.filter((article) => !article.imageUrl);
+    if (missingImages.length > 0) {
+      void fillPageImages(missingImages);
+    }
+  }
+
+  return {
+    feedId: feed.id,
+    new: inserted,
+    updated,
+    revised,
+    skipped: normalized.length - inserted - updated,
+  };
+}
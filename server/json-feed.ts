@@ -0,0 +1,138 @@
+import type { ParsedFeed } from "./feed-fetcher";
+
+// JSON Feed (https://jsonfeed.org) 1.0 and 1.1, mapped onto rss-parser's output
+// shape so the rest of ingestion can treat every feed the same way.
+
+interface JsonFeedAuthor {
+  name?: string;
+  url?: string;
+  avatar?: string;
+}
+
+interface JsonFeedAttachment {
+  url: string;
+  mime_type?: string;
+  title?: string;
+  size_in_bytes?: number;
+  duration_in_seconds?: number;
+}
+
+interface JsonFeedItem {
+  id: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  content_html?: string;
+  content_text?: string;
+  summary?: string;
+  image?: string;
+  banner_image?: string;
+  date_published?: string;
+  date_modified?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor;
+  tags?: string[];
+  attachments?: JsonFeedAttachment[];
+}
+
+interface JsonFeedDocument {
+  version: string;
+  title?: string;
+  home_page_url?: string;
+  // The next page of a paginated feed, with older items
+  next_url?: string;
+  feed_url?: string;
+  description?: string;
+  icon?: string;
+  favicon?: string;
+  authors?: JsonFeedAuthor[];
+  author?: JsonFeedAuthor;
+  hubs?: { type: string; url: string }[];
+  items?: JsonFeedItem[];
+}
+
+export const JSON_FEED_MIME_TYPES = ["application/feed+json", "application/json"];
+
+// Sniff a response body (and optionally its Content-Type) for JSON Feed
+export function isJsonFeed(body: string, contentType?: string | null): boolean {
+  if (contentType?.includes("application/feed+json")) return true;
+
+  const start = body.trimStart();
+  if (!start.startsWith("{")) return false;
+
+  return /"version"\s*:\s*"https:\/\/jsonfeed\.org\/version\//.test(start.slice(0, 2000)) ||
+    Boolean(contentType && JSON_FEED_MIME_TYPES.some((type) => contentType.includes(type)));
+}
+
+function stripHtml(html: string): string {
+  return html.replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+}
+
+// content_text is plain text; turn it into paragraphs so the reader renders it like HTML content
+export function textToHtml(text: string): string {
+  const escaped = text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+  return escaped
+    .split(/\n{2,}/)
+    .map((paragraph) => `<p>${paragraph.replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
+// 1.1 uses an authors array; 1.0 had a single author object
+function authorNames(source: { authors?: JsonFeedAuthor[]; author?: JsonFeedAuthor }): string | undefined {
+  const authors = source.authors || (source.author ? [source.author] : []);
+  const names = authors.map((author) => author.name).filter(Boolean);
+  return names.length > 0 ? names.join(", ") : undefined;
+}
+
+export function parseJsonFeed(body: string): ParsedFeed {
+  const doc = JSON.parse(body) as JsonFeedDocument;
+  if (!doc || typeof doc !== "object" || !String(doc.version || "").startsWith("https://jsonfeed.org/version/")) {
+    throw new Error("Not a JSON Feed document");
+  }
+
+  const feedAuthor = authorNames(doc);
+  const hub = doc.hubs?.find((h) => h.type.toLowerCase() === "websub");
+
+  const items = (doc.items || []).map((item) => {
+    const content = item.content_html || (item.content_text ? textToHtml(item.content_text) : undefined);
+    const published = item.date_published || item.date_modified;
+    const attachment = item.attachments?.[0];
+
+    return {
+      guid: String(item.id),
+      link: item.url || item.external_url,
+      title: item.title || (item.content_text ? stripHtml(item.content_text).slice(0, 80) : undefined),
+      content,
+      contentSnippet: item.summary || item.content_text || (content ? stripHtml(content) : undefined),
+      creator: authorNames(item) || feedAuthor,
+      pubDate: published,
+      isoDate: published ? new Date(published).toISOString() : undefined,
+      categories: item.tags,
+      image: item.image || item.banner_image,
+      enclosure: attachment
+        ? {
+            url: attachment.url,
+            type: attachment.mime_type,
+            length: attachment.size_in_bytes,
+          }
+        : undefined,
+      duration: attachment?.duration_in_seconds,
+      attachments: item.attachments,
+    };
+  });
+
+  return {
+    title: doc.title,
+    link: doc.home_page_url,
+    feedUrl: doc.feed_url,
+    description: doc.description,
+    image: doc.icon ? { url: doc.icon, link: doc.home_page_url } : undefined,
+    favicon: doc.favicon,
+    hub: hub?.url,
+    nextUrl: doc.next_url,
+    items,
+  };
+}
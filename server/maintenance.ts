@@ -0,0 +1,104 @@
+import { storage } from "./storage";
+import { canonicalizeUrl } from "./urls";
+import { unsubscribeFromHub } from "./websub";
+
+export interface FeedMergeReport {
+  // Feeds whose stored canonical URL was missing or stale
+  backfilled: number;
+  merged: { keptFeedId: string; url: string; removedFeedIds: string[] }[];
+  // Groups left alone because merging would lose a working URL, credentials or selectors
+  skipped: { url: string; feedIds: string[]; reason: string }[];
+}
+
+type FeedWithCount = Awaited<ReturnType<typeof storage.getFeedsWithArticleCounts>>[number];
+
+// What a merge would have to give up for a group: canonical URLs ignore the
+// scheme, so an http-only feed can share one with an https feed, and only one
+// set of credentials or selectors survives
+function mergeConflict(group: FeedWithCount[]): string | null {
+  const distinct = (values: (string | null)[]) => new Set(values.filter((value) => value !== null)).size;
+
+  if (new Set(group.map((feed) => new URL(feed.url).protocol)).size > 1) {
+    return "The feeds use different schemes (http and https)";
+  }
+  if (distinct(group.map((feed) => feed.credentials)) > 1) {
+    return "The feeds have different credentials";
+  }
+  if (distinct(group.map((feed) => (feed.scrapeSelectors ? JSON.stringify(feed.scrapeSelectors) : null))) > 1) {
+    return "The feeds are scraped with different selectors";
+  }
+  return null;
+}
+
+// Active feeds first, then those set up with credentials or selectors, then the one with the most articles
+function keeperRank(feed: FeedWithCount): [number, number, number] {
+  return [feed.isActive ? 1 : 0, feed.credentials || feed.scrapeSelectors ? 1 : 0, feed.articleCount];
+}
+
+function compareKeepers(a: FeedWithCount, b: FeedWithCount): number {
+  const [rankA, rankB] = [keeperRank(a), keeperRank(b)];
+  for (let i = 0; i < rankA.length; i++) {
+    if (rankA[i] !== rankB[i]) return rankB[i] - rankA[i];
+  }
+  return 0;
+}
+
+// Find feeds that are the same URL spelled differently and merge each group
+// into one of them, carrying over the credentials or selectors any of them had
+export async function mergeDuplicateFeeds(): Promise<FeedMergeReport> {
+  const report: FeedMergeReport = { backfilled: 0, merged: [], skipped: [] };
+  const feeds = await storage.getFeedsWithArticleCounts();
+  const groups = new Map<string, typeof feeds>();
+
+  for (const feed of feeds) {
+    const canonicalUrl = canonicalizeUrl(feed.url);
+    if (!canonicalUrl) continue;
+
+    // Feeds added before canonical URLs existed
+    if (feed.canonicalUrl !== canonicalUrl) {
+      await storage.updateFeed(feed.id, { url: feed.url });
+      report.backfilled++;
+    }
+
+    groups.set(canonicalUrl, [...(groups.get(canonicalUrl) || []), feed]);
+  }
+
+  for (const [canonicalUrl, group] of Array.from(groups.entries())) {
+    if (group.length < 2) continue;
+
+    const conflict = mergeConflict(group);
+    if (conflict) {
+      report.skipped.push({ url: canonicalUrl, feedIds: group.map((feed) => feed.id), reason: conflict });
+      continue;
+    }
+
+    const [keeper, ...duplicates] = group.sort(compareKeepers);
+    const withCredentials = group.find((feed) => feed.credentials);
+    const withSelectors = group.find((feed) => feed.scrapeSelectors);
+    if ((withCredentials && !keeper.credentials) || (withSelectors && !keeper.scrapeSelectors)) {
+      await storage.updateFeed(keeper.id, {
+        ...(withCredentials && { authType: withCredentials.authType, credentials: withCredentials.credentials }),
+        ...(withSelectors && { scrapeSelectors: withSelectors.scrapeSelectors }),
+      });
+    }
+
+    // The duplicates' WebSub callbacks stop working once they are gone
+    for (const duplicate of duplicates) {
+      await unsubscribeFromHub(duplicate.id);
+    }
+    await storage.mergeFeeds(keeper.id, duplicates.map((feed) => feed.id));
+    report.merged.push({
+      keptFeedId: keeper.id,
+      url: keeper.url,
+      removedFeedIds: duplicates.map((feed) => feed.id),
+    });
+  }
+
+  if (report.merged.length > 0) {
+    console.log(`[maintenance] merged ${report.merged.length} groups of duplicate feeds`);
+  }
+  if (report.skipped.length > 0) {
+    console.log(`[maintenance] left ${report.skipped.length} groups of duplicate feeds unmerged`);
+  }
+  return report;
+}
@@ -0,0 +1,241 @@
+import crypto from "crypto";
+import { JSDOM } from "jsdom";
+import createDOMPurify, { type WindowLike } from "dompurify";
+import { simpleParser, type ParsedMail } from "mailparser";
+import { SMTPServer } from "smtp-server";
+import { storage } from "./storage";
+import { ingestItems, type FeedItem, type IngestionReport } from "./ingestion";
+import { isTrackingPixel } from "./images";
+import { updateFeedIcon } from "./feed-icons";
+import type { Feed, NewsletterInbox } from "@shared/schema";
+
+// Email newsletters as feeds. Mail for an inbox's address arrives through the
+// built-in SMTP listener (started when NEWSLETTER_SMTP_PORT is set) or an
+// uploaded .eml/mbox file. Each sender gets a feed of its own under the inbox,
+// created on its first message, and every message becomes an article.
+
+// Domain shown in inbox addresses; mail has to reach the listener for it (MX record or forwarding)
+export const NEWSLETTER_DOMAIN = (process.env.NEWSLETTER_DOMAIN || "localhost").toLowerCase();
+
+// Largest message accepted, attachments and inline images included
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+const VIEW_ONLINE_PATTERN = /view (?:this |it )?(?:email |post )?(?:online|in (?:your |a )?browser)|read (?:it )?online|open in browser/i;
+
+let listener: SMTPServer | null = null;
+
+export interface NewsletterDelivery {
+  feedId: string;
+  // The feed was created for this message's sender
+  newFeed: boolean;
+  report: IngestionReport;
+}
+
+export function inboxAddress(inbox: Pick<NewsletterInbox, "token">): string {
+  return `${inbox.token}@${NEWSLETTER_DOMAIN}`;
+}
+
+// A readable, unguessable local part: the inbox name followed by random characters
+export function newInboxToken(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 24)
+    .replace(/-+$/, "");
+  const random = crypto.randomBytes(5).toString("hex");
+  return slug ? `${slug}.${random}` : random;
+}
+
+// Feeds are keyed by sender and inbox, so the same newsletter sent to two inboxes stays apart
+function newsletterFeedUrl(inbox: NewsletterInbox, sender: string): string {
+  return `mailto:${sender}?inbox=${inbox.token}`;
+}
+
+function httpUrl(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim().replace(/^<|>$/g, ""));
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function headerText(mail: ParsedMail, name: string): string | undefined {
+  const value = mail.headers.get(name);
+  return typeof value === "string" ? value : undefined;
+}
+
+// Clean up a message's HTML for reading: scripts, styles and forms go, as do
+// tracking pixels, hidden preheader text and the inline styling mail clients
+// need for layout but that fights the reader's own theme. Also picks out the
+// "view in browser" link many newsletters carry, for the article's URL.
+export function readNewsletterHtml(html: string): { content: string; link: string | null } {
+  const { window } = new JSDOM(html);
+  const { document } = window;
+
+  for (const element of Array.from(document.body.querySelectorAll("*"))) {
+    const style = (element.getAttribute("style") || "").toLowerCase().replace(/\s+/g, "");
+    const hidden = element.hasAttribute("hidden") || style.includes("display:none") ||
+      style.includes("visibility:hidden") || style.includes("max-height:0");
+    const pixel = element.tagName === "IMG" && isTrackingPixel({
+      url: element.getAttribute("src") || "",
+      width: parseInt(element.getAttribute("width") || "", 10) || undefined,
+      height: parseInt(element.getAttribute("height") || "", 10) || undefined,
+    });
+    if (hidden || pixel) element.remove();
+  }
+
+  const viewOnline = Array.from(document.body.querySelectorAll("a[href]"))
+    .find((link) => VIEW_ONLINE_PATTERN.test(link.textContent || "") && httpUrl(link.getAttribute("href") || undefined));
+
+  const purify = createDOMPurify(window as unknown as WindowLike);
+  purify.addHook("afterSanitizeAttributes", (node) => {
+    if (node.tagName === "A" && node.getAttribute("href")) {
+      node.setAttribute("target", "_blank");
+      node.setAttribute("rel", "noopener noreferrer");
+    }
+  });
+  const content = purify.sanitize(document.body.innerHTML, {
+    USE_PROFILES: { html: true },
+    FORBID_TAGS: ["style", "form", "input", "button", "select", "textarea"],
+    FORBID_ATTR: ["style", "class", "id", "bgcolor", "background", "color", "align", "valign"],
+    ADD_ATTR: ["target"],
+  });
+
+  return { content, link: httpUrl(viewOnline?.getAttribute("href") || undefined) };
+}
+
+// Map a parsed message onto a feed item
+function messageItem(mail: ParsedMail, sender: string): FeedItem {
+  const { content, link } = mail.html ? readNewsletterHtml(mail.html) : { content: mail.textAsHtml || "", link: null };
+  const date = mail.date && !isNaN(mail.date.getTime()) ? mail.date : new Date();
+  const guid = mail.messageId ||
+    `${sender}#${crypto.createHash("sha1").update(`${mail.subject || ""}\n${date.toISOString()}`).digest("hex").slice(0, 16)}`;
+
+  return {
+    guid,
+    title: mail.subject?.trim() || "(no subject)",
+    link: link || httpUrl(headerText(mail, "archived-at")) || undefined,
+    content,
+    contentSnippet: mail.text?.replace(/\s+/g, " ").trim(),
+    creator: mail.from?.value[0]?.name || sender,
+    isoDate: date.toISOString(),
+  };
+}
+
+// The sender's feed in the inbox, created on its first message
+async function senderFeed(inbox: NewsletterInbox, mail: ParsedMail, sender: string): Promise<{ feed: Feed; created: boolean }> {
+  const url = newsletterFeedUrl(inbox, sender);
+  const existing = await storage.getFeedByUrl(url);
+  if (existing) return { feed: existing, created: false };
+
+  // List-URL and List-Archive point at the newsletter's site more often than the sender's domain does
+  const list = mail.headers.get("list") as { url?: { url?: string }; archive?: { url?: string } } | undefined;
+  const siteUrl = httpUrl(list?.url?.url) || httpUrl(list?.archive?.url) || `https://${sender.split("@")[1]}/`;
+
+  const feed = await storage.createFeed({
+    title: mail.from?.value[0]?.name?.trim() || sender,
+    url,
+    siteUrl,
+    description: `Newsletter from ${sender}`,
+    categoryId: inbox.categoryId,
+    isActive: true,
+    newsletterInboxId: inbox.id,
+  });
+  return { feed, created: true };
+}
+
+// File one raw message into the inbox. Throws when it can't be parsed or has no sender.
+export async function deliverMessage(inbox: NewsletterInbox, raw: Buffer | string): Promise<NewsletterDelivery> {
+  const mail = await simpleParser(raw);
+  const sender = mail.from?.value[0]?.address?.trim().toLowerCase();
+  if (!sender || !sender.includes("@")) {
+    throw new Error("The message has no sender address");
+  }
+
+  const { feed, created } = await senderFeed(inbox, mail, sender);
+  const report = await ingestItems(feed, [messageItem(mail, sender)]);
+  await storage.updateFeed(feed.id, { lastFetched: new Date(), errorCount: 0, lastError: null });
+  if (created) {
+    void updateFeedIcon(feed);
+  }
+
+  return { feedId: feed.id, newFeed: created, report };
+}
+
+// Split an mbox file into its messages. A single message (.eml) comes back as is.
+export function splitMbox(text: string): string[] {
+  if (!text.startsWith("From ")) return text.trim() ? [text] : [];
+
+  return text
+    .split(/^From .*\r?\n/m)
+    .filter((message) => message.trim())
+    // mboxrd quotes body lines starting with "From " as ">From "
+    .map((message) => message.replace(/^>(>*From )/gm, "$1"));
+}
+
+// Find the inbox an SMTP recipient address belongs to
+async function recipientInbox(address: string): Promise<NewsletterInbox | undefined> {
+  const [localPart, domain] = address.toLowerCase().split("@");
+  if (!localPart || (domain && domain !== NEWSLETTER_DOMAIN)) return undefined;
+  return storage.getNewsletterInboxByToken(localPart);
+}
+
+function smtpError(message: string, responseCode: number): Error {
+  return Object.assign(new Error(message), { responseCode });
+}
+
+// Accept mail for the newsletter inboxes on NEWSLETTER_SMTP_PORT; does nothing when it isn't set.
+// Only RCPT TO addresses of existing inboxes are accepted, so the listener is no open relay.
+export function startNewsletterListener() {
+  const port = parseInt(process.env.NEWSLETTER_SMTP_PORT || "", 10);
+  if (listener || !port) return;
+
+  listener = new SMTPServer({
+    name: NEWSLETTER_DOMAIN,
+    banner: "ModernFeed newsletter inbox",
+    authOptional: true,
+    disabledCommands: ["AUTH", "STARTTLS"],
+    size: MAX_MESSAGE_BYTES,
+    logger: false,
+    onRcptTo(address, _session, callback) {
+      recipientInbox(address.address)
+        .then((inbox) => callback(inbox ? undefined : smtpError("No such newsletter inbox", 550)))
+        .catch(() => callback(smtpError("Try again later", 451)));
+    },
+    onData(stream, session, callback) {
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("error", callback);
+      stream.on("end", async () => {
+        if ((stream as { sizeExceeded?: boolean }).sizeExceeded) {
+          return callback(smtpError("Message too large", 552));
+        }
+
+        const raw = Buffer.concat(chunks);
+        try {
+          for (const recipient of session.envelope.rcptTo) {
+            const inbox = await recipientInbox(recipient.address);
+            if (inbox) await deliverMessage(inbox, raw);
+          }
+          callback();
+        } catch (error) {
+          console.error("[newsletters] Error delivering message:", error);
+          callback(smtpError("The message could not be processed", 554));
+        }
+      });
+    },
+  });
+
+  listener.on("error", (error) => console.error("[newsletters] SMTP listener error:", error));
+  const host = process.env.NEWSLETTER_SMTP_HOST || "127.0.0.1";
+  listener.listen(port, host, () => {
+    console.log(`[newsletters] accepting mail for @${NEWSLETTER_DOMAIN} on ${host}:${port}`);
+  });
+}
+
+export function isNewsletterListenerRunning(): boolean {
+  return listener !== null;
+}
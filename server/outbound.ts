@@ -0,0 +1,243 @@
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import zlib from "zlib";
+import type { Readable } from "stream";
+
+// Every request the server makes to a URL that came from a user or a feed goes
+// through safeFetch. Host names are resolved and checked as each connection is
+// opened (so DNS can't change between the check and the request), private,
+// loopback and link-local addresses are refused unless allowlisted, redirects
+// are followed hop by hop through the same check, and bodies are capped in
+// size and content type.
+
+const MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+
+// Addresses that aren't on the public internet
+const blockedRanges = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+  ["2001:db8::", 32],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+// FETCH_ALLOWLIST lets intranet feeds through: comma-separated host names
+// ("intranet.example", or ".example.corp" for a whole domain) and CIDR ranges
+// ("10.20.0.0/16")
+const allowedHosts: string[] = [];
+const allowedRanges = new net.BlockList();
+for (const entry of (process.env.FETCH_ALLOWLIST || "").split(",").map((e) => e.trim().toLowerCase()).filter(Boolean)) {
+  const [network, prefix] = entry.split("/");
+  const family = net.isIP(network);
+  if (family) {
+    const type = family === 4 ? "ipv4" : "ipv6";
+    allowedRanges.addSubnet(network, prefix ? parseInt(prefix, 10) : family === 4 ? 32 : 128, type);
+  } else {
+    allowedHosts.push(entry);
+  }
+}
+
+export class BlockedRequestError extends Error {}
+
+function ipType(address: string): "ipv4" | "ipv6" {
+  return net.isIP(address) === 6 ? "ipv6" : "ipv4";
+}
+
+function isAllowedHost(hostname: string): boolean {
+  const host = hostname.toLowerCase();
+  return allowedHosts.some((entry) => (entry.startsWith(".") ? host.endsWith(entry) : host === entry));
+}
+
+function isBlockedAddress(address: string): boolean {
+  const type = ipType(address);
+  return blockedRanges.check(address, type) && !allowedRanges.check(address, type);
+}
+
+// dns.lookup replacement used for every connection: refuses host names that
+// resolve to any blocked address
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 4);
+
+    const list = addresses as dns.LookupAddress[];
+    if (!isAllowedHost(hostname)) {
+      const blocked = list.find((entry) => isBlockedAddress(entry.address));
+      if (blocked) {
+        return callback(new BlockedRequestError(`${hostname} resolves to a private address (${blocked.address})`), "", 4);
+      }
+    }
+
+    if (options.all) {
+      (callback as unknown as (err: null, addresses: dns.LookupAddress[]) => void)(null, list);
+    } else {
+      callback(null, list[0].address, list[0].family);
+    }
+  });
+};
+
+// Refuse anything but http(s), and IP literals in blocked ranges (which never reach the lookup)
+function checkUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedRequestError(`Unsupported protocol ${url.protocol}`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && !isAllowedHost(host) && isBlockedAddress(host)) {
+    throw new BlockedRequestError(`${host} is a private address`);
+  }
+}
+
+export interface SafeFetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  // Larger bodies (after decompression) are refused
+  maxBytes?: number;
+  // Content types a successful response may have; others are refused
+  contentTypes?: RegExp;
+  // "manual" returns redirects to the caller instead of following them
+  redirect?: "follow" | "manual";
+}
+
+export interface SafeResponse {
+  // Final URL after any redirects that were followed
+  url: string;
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: Buffer;
+  text(): Promise<string>;
+}
+
+function decode(stream: http.IncomingMessage): Readable {
+  switch ((stream.headers["content-encoding"] || "").trim().toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return stream.pipe(zlib.createGunzip());
+    case "deflate":
+      return stream.pipe(zlib.createInflate());
+    case "br":
+      return stream.pipe(zlib.createBrotliDecompress());
+    default:
+      return stream;
+  }
+}
+
+function request(url: URL, options: SafeFetchOptions, signal: AbortSignal): Promise<SafeResponse> {
+  checkUrl(url);
+  const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES;
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(url, {
+      method: options.method || "GET",
+      headers: { "Accept-Encoding": "gzip, deflate, br", ...options.headers },
+      lookup: safeLookup,
+      signal,
+    }, (res) => {
+      const status = res.statusCode || 0;
+      const headers = new Headers();
+      for (const [name, value] of Object.entries(res.headers)) {
+        if (value === undefined) continue;
+        for (const item of Array.isArray(value) ? value : [value]) headers.append(name, item);
+      }
+
+      const fail = (error: Error) => {
+        res.destroy();
+        reject(error);
+      };
+
+      const contentType = headers.get("content-type");
+      const isRedirect = status >= 300 && status < 400;
+      if (status >= 200 && status < 300 && contentType && options.contentTypes && !options.contentTypes.test(contentType)) {
+        return fail(new BlockedRequestError(`Unexpected content type ${contentType}`));
+      }
+      const declaredLength = parseInt(headers.get("content-length") || "", 10);
+      if (!isRedirect && declaredLength > maxBytes && !headers.get("content-encoding")) {
+        return fail(new BlockedRequestError(`Response is larger than ${maxBytes} bytes`));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const body = decode(res);
+      body.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          body.destroy();
+          fail(new BlockedRequestError(`Response is larger than ${maxBytes} bytes`));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on("error", reject);
+      body.on("end", () => {
+        const buffer = Buffer.concat(chunks);
+        resolve({
+          url: url.toString(),
+          status,
+          ok: status >= 200 && status < 300,
+          headers,
+          body: buffer,
+          text: async () => buffer.toString("utf8"),
+        });
+      });
+    });
+
+    req.on("error", reject);
+    req.end(options.body);
+  });
+}
+
+// Fetch a URL the server was asked to fetch, applying the checks above. Throws
+// BlockedRequestError when a check fails and the usual errors on network failures.
+export async function safeFetch(input: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let url = new URL(input);
+  let method = options.method;
+  let body = options.body;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const response = await request(url, { ...options, method, body }, signal);
+    const location = response.headers.get("location");
+    if (options.redirect === "manual" || response.status < 300 || response.status >= 400 ||
+        response.status === 304 || !location) {
+      return response;
+    }
+
+    url = new URL(location, url);
+    // Like fetch(), 303s (and POSTs answered with 301/302) become GETs
+    if (response.status === 303 || ((response.status === 301 || response.status === 302) && method === "POST")) {
+      method = "GET";
+      body = undefined;
+    }
+  }
+
+  throw new Error("Too many redirects");
+}
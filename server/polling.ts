@@ -0,0 +1,117 @@
+import type { PublicFeed } from "@shared/schema";
+
+// Global background refresh interval in minutes, used when a feed has none of its own
+export const DEFAULT_REFRESH_INTERVAL = parseInt(process.env.FEED_REFRESH_INTERVAL || "30", 10);
+
+// Bounds for intervals derived from a feed's publishing history, in minutes
+const MIN_ADAPTIVE_INTERVAL = 15;
+const MAX_ADAPTIVE_INTERVAL = 24 * 60;
+
+// Longest a failing feed is left alone before we try again, in minutes
+const MAX_BACKOFF_INTERVAL = 2 * 24 * 60;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface PollingHints {
+  ttl: number | null;
+  skipHours: number[] | null;
+  skipDays: string[] | null;
+}
+
+// Read RSS <ttl>, <skipHours> and <skipDays> from a parsed channel
+export function getPollingHints(channel: { [key: string]: any }): PollingHints {
+  const ttl = parseInt(channel.ttl, 10);
+
+  const hours: unknown[] = channel.skipHours?.hour || [];
+  const skipHours = hours
+    .map((hour) => parseInt(String(hour), 10))
+    .filter((hour) => hour >= 0 && hour <= 23);
+
+  const days: unknown[] = channel.skipDays?.day || [];
+  const skipDays = days
+    .map((day) => String(day).trim())
+    .filter((day) => DAY_NAMES.includes(day));
+
+  return {
+    ttl: ttl > 0 ? ttl : null,
+    skipHours: skipHours.length > 0 ? skipHours : null,
+    skipDays: skipDays.length > 0 ? skipDays : null,
+  };
+}
+
+// Poll about twice per typical gap between posts, based on the median of recent gaps
+export function computeAdaptiveInterval(publishDates: Date[]): number | null {
+  if (publishDates.length < 3) return null;
+
+  const times = publishDates.map((date) => date.getTime()).sort((a, b) => b - a);
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    gaps.push((times[i - 1] - times[i]) / 60000);
+  }
+  gaps.sort((a, b) => a - b);
+
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return Math.round(Math.min(MAX_ADAPTIVE_INTERVAL, Math.max(MIN_ADAPTIVE_INTERVAL, median / 2)));
+}
+
+// Minutes until a healthy feed should be polled again
+export function getRefreshInterval(feed: PublicFeed): number {
+  const interval = feed.refreshInterval || feed.adaptiveInterval || DEFAULT_REFRESH_INTERVAL;
+  // The publisher's <ttl> is the shortest interval we'll use
+  return Math.max(interval, feed.ttl || 0);
+}
+
+// Parse a Retry-After header, which is either delay-seconds or an HTTP date
+export function parseRetryAfter(header: string | null, now = new Date()): Date | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return new Date(now.getTime() + Math.max(0, seconds) * 1000);
+  }
+
+  const date = new Date(header);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Move a time forward past any hours or days the feed asks us not to poll (times are GMT)
+function skipBlockedTimes(feed: PublicFeed, date: Date): Date {
+  const skipHours = feed.skipHours || [];
+  const skipDays = feed.skipDays || [];
+  if (skipHours.length === 0 && skipDays.length === 0) return date;
+
+  const result = new Date(date);
+  for (let i = 0; i < 7 * 24; i++) {
+    const blocked =
+      skipHours.includes(result.getUTCHours()) ||
+      skipDays.includes(DAY_NAMES[result.getUTCDay()]);
+    if (!blocked) return result;
+
+    result.setUTCHours(result.getUTCHours() + 1, 0, 0, 0);
+  }
+
+  // Every hour is skipped; ignore the hints rather than never polling
+  return date;
+}
+
+// When a feed fetched at `from` should next be polled. Failing feeds back off
+// exponentially with their error count, and never before a server's Retry-After.
+export function nextFetchTime(
+  feed: PublicFeed,
+  from = new Date(),
+  options: { retryAfter?: Date | null } = {}
+): Date {
+  let interval = getRefreshInterval(feed);
+
+  const errorCount = feed.errorCount || 0;
+  if (errorCount > 0) {
+    interval = Math.min(MAX_BACKOFF_INTERVAL, interval * 2 ** Math.min(errorCount, 10));
+  }
+
+  let next = new Date(from.getTime() + interval * 60 * 1000);
+  if (options.retryAfter && options.retryAfter > next) {
+    next = options.retryAfter;
+  }
+
+  return skipBlockedTimes(feed, next);
+}
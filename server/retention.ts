@@ -0,0 +1,100 @@
+import { storage } from "./storage";
+import type { Feed, RetentionPolicy } from "@shared/schema";
+
+// Article retention: a global policy (stored in app_settings) that feeds can
+// override with their own. Cleanup runs from the scheduler every few hours and
+// on demand from the settings page. Bookmarked articles are never deleted, and
+// the guids of deleted ones are kept in purged_articles so the next fetch
+// doesn't bring them back while they are still in the feed.
+
+const SETTING_KEY = "retention";
+
+// Keeps everything, as before retention settings existed
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  maxAgeDays: null,
+  maxItems: null,
+  keepUnreadDays: null,
+};
+
+const CLEANUP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Purged guids no fetch has seen in this long are forgotten
+const PURGED_GUID_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+export interface CleanupReport {
+  deleted: number;
+  feeds: { feedId: string; deleted: number }[];
+}
+
+let lastCleanupAt: Date | null = null;
+let running: Promise<CleanupReport> | null = null;
+
+export async function getRetentionPolicy(): Promise<RetentionPolicy> {
+  return { ...DEFAULT_RETENTION_POLICY, ...(await storage.getSetting<RetentionPolicy>(SETTING_KEY)) };
+}
+
+export async function saveRetentionPolicy(policy: RetentionPolicy): Promise<void> {
+  await storage.saveSetting(SETTING_KEY, policy);
+}
+
+export function effectivePolicy(feed: Pick<Feed, "retention">, globalPolicy: RetentionPolicy): RetentionPolicy {
+  return feed.retention ?? globalPolicy;
+}
+
+async function purge(feeds: Pick<Feed, "id" | "retention">[]): Promise<CleanupReport> {
+  const globalPolicy = await getRetentionPolicy();
+  const now = new Date();
+  const report: CleanupReport = { deleted: 0, feeds: [] };
+
+  for (const feed of feeds) {
+    const deleted = await storage.purgeArticles(feed.id, effectivePolicy(feed, globalPolicy), now);
+    if (deleted > 0) {
+      report.deleted += deleted;
+      report.feeds.push({ feedId: feed.id, deleted });
+    }
+  }
+
+  if (report.deleted > 0) {
+    await storage.deleteEmptyStoryClusters();
+  }
+  return report;
+}
+
+// Apply the retention policies to every feed, or to just the one given
+export async function runCleanup(feedId?: string): Promise<CleanupReport> {
+  if (feedId) {
+    const feed = await storage.getFeed(feedId);
+    return feed ? purge([feed]) : { deleted: 0, feeds: [] };
+  }
+
+  // A cleanup of everything already in progress covers this request too
+  running ??= (async () => {
+    try {
+      const report = await purge(await storage.getFeeds());
+      await storage.prunePurgedArticles(new Date(Date.now() - PURGED_GUID_TTL_MS));
+      lastCleanupAt = new Date();
+      if (report.deleted > 0) {
+        console.log(`[retention] deleted ${report.deleted} articles from ${report.feeds.length} feeds`);
+      }
+      return report;
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+// Called from the scheduler on every tick
+export async function runCleanupIfDue(): Promise<void> {
+  if (lastCleanupAt && Date.now() - lastCleanupAt.getTime() < CLEANUP_INTERVAL_MS) return;
+  try {
+    await runCleanup();
+  } catch (error) {
+    // Try again on a later tick rather than every minute
+    lastCleanupAt = new Date();
+    console.error("[retention] Error cleaning up articles:", error);
+  }
+}
+
+export function getLastCleanupAt(): Date | null {
+  return lastCleanupAt;
+}
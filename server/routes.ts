@@ -1,197 +1,53 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import Parser from "rss-parser";
-import { JSDOM } from "jsdom";
-import { Readability } from "@mozilla/readability";
-import { insertFeedSchema, insertCategorySchema } from "@shared/schema";
-
-const parser = new Parser({
-  timeout: 10000,
-  headers: {
-    "User-Agent": "ModernFeed RSS Reader/1.0",
-  },
-});
-
-// Helper to extract favicon URL from a website
-async function getFaviconUrl(siteUrl: string): Promise<string | null> {
-  try {
-    const url = new URL(siteUrl);
-    return `https://www.google.com/s2/favicons?domain=${url.hostname}&sz=32`;
-  } catch {
-    return null;
-  }
-}
-
-// Helper to extract a summary from content
-function extractSummary(content: string | undefined, maxLength = 200): string | null {
-  if (!content) return null;
-  
-  // Strip HTML tags
-  const text = content.replace(/<[^>]*>/g, "").trim();
-  
-  if (text.length <= maxLength) return text;
-  
-  // Find the last space before maxLength to avoid cutting words
-  const lastSpace = text.lastIndexOf(" ", maxLength);
-  return text.substring(0, lastSpace > 0 ? lastSpace : maxLength) + "...";
+import { storage, type FeedUpdate } from "./storage";
+import { parseFeed, fetchFeed, refreshFeeds, countNewArticles, cacheValidators } from "./feed-fetcher";
+import { ingestItems } from "./ingestion";
+import { nextFetchTime } from "./polling";
+import { getSchedulerStatus } from "./scheduler";
+import { subscribeToHub, unsubscribeFromHub, verifyIntent, handlePush } from "./websub";
+import { resolveYouTubeFeed } from "./youtube";
+import { normalizeUrl, cleanUrl } from "./urls";
+import { mergeDuplicateFeeds } from "./maintenance";
+import { canStoreSecrets, sealFeedCredentials } from "./secrets";
+import { BlockedRequestError } from "./outbound";
+import { extractArticle, extractAndStore, ExtractionError, ExtractionRateLimitError } from "./extraction";
+import { getProxiedImage, thumbnailWidth, getImageCacheStats } from "./image-proxy";
+import { updateFeedIcon } from "./feed-icons";
+import { discoverFeeds, describeFeed } from "./discovery";
+import { getRetentionPolicy, saveRetentionPolicy, runCleanup, getLastCleanupAt } from "./retention";
+import { startBackfill, getBackfillProgress } from "./backfill";
+import { deliverMessage, splitMbox, inboxAddress, newInboxToken, isNewsletterListenerRunning, NEWSLETTER_DOMAIN } from "./newsletters";
+import {
+  insertFeedSchema,
+  insertCategorySchema,
+  feedCredentialsSchema,
+  webPageSelectorsSchema,
+  insertNewsletterInboxSchema,
+  retentionPolicySchema,
+  type Feed,
+  type PublicFeed,
+  type FeedCredentials,
+  type WebPageSelectors,
+} from "@shared/schema";
+
+// A feed without its encrypted credentials, for responses
+function publicFeed({ credentials, ...feed }: Feed): PublicFeed {
+  return feed;
 }
 
-// Parse and fetch a feed
-async function parseFeed(url: string) {
-  try {
-    const feed = await parser.parseURL(url);
-    return { success: true, feed };
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : "Failed to parse feed" };
-  }
-}
-
-// Concurrent processing with limit
-async function mapConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
-  const results: R[] = [];
-  const executing: Promise<void>[] = [];
-  
-  for (const item of items) {
-    const p = Promise.resolve().then(() => fn(item)).then(result => {
-      results.push(result);
-    });
-    const e = p.then(() => {
-      executing.splice(executing.indexOf(e), 1);
-    });
-    executing.push(e);
-    
-    if (executing.length >= limit) {
-      await Promise.race(executing);
-    }
-  }
-  
-  await Promise.all(executing);
-  return results;
-}
+// Credentials sent with a request body: undefined when absent, null to clear them
+function parseCredentials(input: unknown): { credentials?: FeedCredentials | null; error?: string } {
+  if (input === undefined) return {};
+  if (input === null) return { credentials: null };
 
-// Normalize a URL - add protocol if missing
-function normalizeUrl(input: string): string {
-  let url = input.trim();
-  
-  // Remove any leading/trailing whitespace and invisible characters
-  url = url.replace(/^[\s\u200B]+|[\s\u200B]+$/g, '');
-  
-  // If it doesn't start with a protocol, add https://
-  if (!url.match(/^https?:\/\//i)) {
-    url = `https://${url}`;
+  const parsed = feedCredentialsSchema.safeParse(input);
+  if (!parsed.success) return { error: parsed.error.message };
+  const hasSecrets = parsed.data.authType !== "none" || parsed.data.headers.length > 0;
+  if (hasSecrets && !canStoreSecrets()) {
+    return { error: "Set FEED_CREDENTIALS_KEY on the server to store feed credentials" };
   }
-  
-  return url;
-}
-
-// Discover RSS feeds from a website URL
-async function discoverFeeds(url: string): Promise<{ url: string; title: string; type: string }[]> {
-  const feeds: { url: string; title: string; type: string }[] = [];
-  
-  try {
-    // Fetch the webpage
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent": "ModernFeed RSS Reader/1.0",
-      },
-      signal: AbortSignal.timeout(10000),
-    });
-    
-    if (!response.ok) {
-      return feeds;
-    }
-    
-    const html = await response.text();
-    const baseUrl = new URL(url);
-    
-    // Look for RSS/Atom link tags in the HTML
-    const linkRegex = /<link[^>]+(?:type=["'](?:application\/(?:rss|atom)\+xml|text\/xml)["'][^>]*href=["']([^"']+)["']|href=["']([^"']+)["'][^>]*type=["'](?:application\/(?:rss|atom)\+xml|text\/xml)["'])[^>]*\/?>/gi;
-    const titleRegex = /<link[^>]+title=["']([^"']+)["'][^>]*>/gi;
-    
-    // Find all link tags with RSS/Atom types
-    let match;
-    const processedUrls = new Set<string>();
-    
-    // Pattern 1: type before href
-    const pattern1 = /<link[^>]+type=["'](application\/(?:rss|atom)\+xml|text\/xml)["'][^>]*href=["']([^"']+)["'][^>]*(?:title=["']([^"']+)["'])?[^>]*\/?>/gi;
-    while ((match = pattern1.exec(html)) !== null) {
-      const type = match[1];
-      let href = match[2];
-      const title = match[3] || "RSS Feed";
-      
-      // Resolve relative URLs
-      if (!href.startsWith("http")) {
-        href = new URL(href, baseUrl).toString();
-      }
-      
-      if (!processedUrls.has(href)) {
-        processedUrls.add(href);
-        feeds.push({
-          url: href,
-          title: title,
-          type: type.includes("atom") ? "Atom" : "RSS",
-        });
-      }
-    }
-    
-    // Pattern 2: href before type
-    const pattern2 = /<link[^>]*href=["']([^"']+)["'][^>]*type=["'](application\/(?:rss|atom)\+xml|text\/xml)["'][^>]*(?:title=["']([^"']+)["'])?[^>]*\/?>/gi;
-    while ((match = pattern2.exec(html)) !== null) {
-      let href = match[1];
-      const type = match[2];
-      const title = match[3] || "RSS Feed";
-      
-      if (!href.startsWith("http")) {
-        href = new URL(href, baseUrl).toString();
-      }
-      
-      if (!processedUrls.has(href)) {
-        processedUrls.add(href);
-        feeds.push({
-          url: href,
-          title: title,
-          type: type.includes("atom") ? "Atom" : "RSS",
-        });
-      }
-    }
-    
-    // Also check common RSS paths if no feeds found
-    if (feeds.length === 0) {
-      const commonPaths = [
-        "/feed",
-        "/feed/",
-        "/rss",
-        "/rss.xml",
-        "/atom.xml",
-        "/feed.xml",
-        "/index.xml",
-        "/blog/feed",
-        "/blog/rss",
-      ];
-      
-      for (const path of commonPaths) {
-        try {
-          const feedUrl = new URL(path, baseUrl).toString();
-          const result = await parseFeed(feedUrl);
-          if (result.success && result.feed) {
-            feeds.push({
-              url: feedUrl,
-              title: result.feed.title || "RSS Feed",
-              type: "RSS",
-            });
-            break; // Found one, stop looking
-          }
-        } catch {
-          // Continue trying other paths
-        }
-      }
-    }
-  } catch (error) {
-    console.error("Error discovering feeds:", error);
-  }
-  
-  return feeds;
+  return { credentials: parsed.data };
 }
 
 export async function registerRoutes(
@@ -256,26 +112,37 @@ export async function registerRoutes(
       if (!rawUrl) {
         return res.status(400).json({ error: "URL is required" });
       }
+
+      // Private feeds need their credentials to be recognised as feeds
+      const credentials = feedCredentialsSchema.nullable().optional().safeParse(req.body.credentials);
+      if (!credentials.success) {
+        return res.status(400).json({ error: credentials.error.message });
+      }
       
       // Normalize the URL
       const url = normalizeUrl(rawUrl);
+
+      // YouTube channels, handles and playlists map straight to their Atom feeds
+      const youtubeFeed = await resolveYouTubeFeed(url);
+      if (youtubeFeed) {
+        return res.json({ directFeed: false, feeds: [youtubeFeed] });
+      }
       
       // First, try to parse it directly as an RSS feed
-      const directResult = await parseFeed(url);
+      const directResult = await parseFeed(url, undefined, credentials.data);
+      if (directResult.blocked) {
+        return res.status(400).json({ error: directResult.error });
+      }
       if (directResult.success && directResult.feed) {
         // It's already a valid RSS feed
         return res.json({ 
           directFeed: true, 
-          feeds: [{
-            url,
-            title: directResult.feed.title || "RSS Feed",
-            type: "RSS"
-          }]
+          feeds: [describeFeed({ url, source: "link" }, directResult)]
         });
       }
       
       // Not a direct feed, try to discover feeds from the website
-      const discoveredFeeds = await discoverFeeds(url);
+      const discoveredFeeds = await discoverFeeds(url, credentials.data);
       
       res.json({ 
         directFeed: false, 
@@ -287,6 +154,46 @@ export async function registerRoutes(
     }
   });
 
+  // Scrape a page with web page feed selectors and show what the feed would contain
+  app.post("/api/feeds/web-page-preview", async (req, res) => {
+    try {
+      const { url: rawUrl } = req.body;
+      if (!rawUrl) {
+        return res.status(400).json({ error: "URL is required" });
+      }
+
+      const selectors = webPageSelectorsSchema.safeParse(req.body.selectors);
+      if (!selectors.success) {
+        return res.status(400).json({ error: selectors.error.errors[0]?.message || selectors.error.message });
+      }
+      const credentials = feedCredentialsSchema.nullable().optional().safeParse(req.body.credentials);
+      if (!credentials.success) {
+        return res.status(400).json({ error: credentials.error.message });
+      }
+
+      const result = await parseFeed(normalizeUrl(rawUrl), undefined, credentials.data, selectors.data);
+      if (!result.success || !result.feed) {
+        return res.status(400).json({ error: result.error || "Could not load the page" });
+      }
+
+      const items = result.feed.items || [];
+      res.json({
+        title: result.feed.title || null,
+        itemCount: items.length,
+        items: items.slice(0, 20).map((item) => ({
+          title: item.title,
+          link: item.link,
+          date: item.isoDate || null,
+          summary: item.contentSnippet || null,
+        })),
+        warnings: result.warnings || [],
+      });
+    } catch (error) {
+      console.error("Error previewing web page feed:", error);
+      res.status(500).json({ error: "Failed to preview web page feed" });
+    }
+  });
+
   app.post("/api/feeds", async (req, res) => {
     try {
       let { url, categoryId } = req.body;
@@ -296,65 +203,71 @@ export async function registerRoutes(
       }
 
       // Normalize the URL
-      url = normalizeUrl(url);
+      url = cleanUrl(normalizeUrl(url));
+
+      const { credentials, error: credentialsError } = parseCredentials(req.body.credentials);
+      if (credentialsError) {
+        return res.status(400).json({ error: credentialsError });
+      }
+
+      // Web page feeds come with the selectors to scrape the page with
+      let scrapeSelectors: WebPageSelectors | null = null;
+      if (req.body.selectors) {
+        const selectors = webPageSelectorsSchema.safeParse(req.body.selectors);
+        if (!selectors.success) {
+          return res.status(400).json({ error: selectors.error.errors[0]?.message || selectors.error.message });
+        }
+        scrapeSelectors = selectors.data;
+      }
 
-      // Check if feed already exists
+      // Check if feed already exists, under this or any equivalent spelling
       const existingFeed = await storage.getFeedByUrl(url);
       if (existingFeed) {
         return res.status(409).json({ error: "Feed already exists" });
       }
 
       // Parse the feed to get metadata
-      const result = await parseFeed(url);
+      const result = await parseFeed(url, undefined, credentials, scrapeSelectors);
       if (!result.success || !result.feed) {
         return res.status(400).json({ error: result.error || "Invalid feed URL" });
       }
+      if (scrapeSelectors && !result.feed.items?.length) {
+        return res.status(400).json({ error: "No items on the page match the item selector" });
+      }
 
       const { feed: parsedFeed } = result;
 
-      // Get favicon
-      const siteUrl = parsedFeed.link || url;
-      const favicon = await getFaviconUrl(siteUrl);
-
       // Create the feed
       const feed = await storage.createFeed({
         title: parsedFeed.title || "Untitled Feed",
         url,
         siteUrl: parsedFeed.link || null,
         description: parsedFeed.description || null,
-        favicon,
         categoryId: categoryId || null,
         isActive: true,
       });
 
       // Add articles from the feed
-      const items = parsedFeed.items || [];
-      for (const item of items.slice(0, 50)) {
-        const guid = item.guid || item.link || item.title || "";
-        
-        // Check if article already exists
-        const existingArticle = await storage.getArticleByGuid(feed.id, guid);
-        if (existingArticle) continue;
-
-        await storage.createArticle({
-          feedId: feed.id,
-          title: item.title || "Untitled",
-          url: item.link || "",
-          content: item["content:encoded"] || item.content || null,
-          summary: extractSummary(item.contentSnippet || item.content),
-          author: item.creator || item.author || null,
-          imageUrl: item.enclosure?.url || null,
-          publishedAt: item.pubDate ? new Date(item.pubDate) : new Date(),
-          isRead: false,
-          isBookmarked: false,
-          guid,
-        });
-      }
+      await ingestItems(feed, parsedFeed.items || []);
+      // Trying icon candidates can take a while, so it doesn't hold up the response
+      void updateFeedIcon(feed, parsedFeed);
+
+      // Update last fetched and hand the feed over to the scheduler
+      const now = new Date();
+      const updated = await storage.updateFeed(feed.id, {
+        lastFetched: now,
+        nextFetchAt: nextFetchTime(feed, now),
+        ...cacheValidators(result),
+        ...sealFeedCredentials(credentials ?? null),
+        scrapeSelectors,
+      });
 
-      // Update last fetched
-      await storage.updateFeed(feed.id, { lastFetched: new Date() });
+      // Prefer push updates when the feed advertises a WebSub hub
+      if (result.hub) {
+        void subscribeToHub(feed, result.hub, result.self || url);
+      }
 
-      res.status(201).json(feed);
+      res.status(201).json(publicFeed(updated ?? feed));
     } catch (error) {
       console.error("Error creating feed:", error);
       res.status(500).json({ error: "Failed to create feed" });
@@ -363,6 +276,7 @@ export async function registerRoutes(
 
   app.delete("/api/feeds/:id", async (req, res) => {
     try {
+      await unsubscribeFromHub(req.params.id);
       const deleted = await storage.deleteFeed(req.params.id);
       if (!deleted) {
         return res.status(404).json({ error: "Feed not found" });
@@ -374,74 +288,218 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/feeds/refresh", async (_req, res) => {
+  app.patch("/api/feeds/:id", async (req, res) => {
     try {
-      const feeds = await storage.getFeeds();
-      const activeFeeds = feeds.filter(f => f.isActive);
-      let totalNewArticles = 0;
+      const parsed = insertFeedSchema
+        .pick({ title: true, categoryId: true, isActive: true, refreshInterval: true, fetchFullContent: true, retention: true, itemLimit: true })
+        .partial()
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.message });
+      }
 
-      // Process 5 feeds concurrently for better performance
-      await mapConcurrency(activeFeeds, 5, async (feed) => {
-        try {
-          const result = await parseFeed(feed.url);
-          if (!result.success || !result.feed) {
-            await storage.updateFeed(feed.id, { 
-              errorCount: (feed.errorCount || 0) + 1 
-            });
-            return;
-          }
+      const { credentials, error: credentialsError } = parseCredentials(req.body.credentials);
+      if (credentialsError) {
+        return res.status(400).json({ error: credentialsError });
+      }
 
-          const items = result.feed.items || [];
-          for (const item of items.slice(0, 50)) {
-            const guid = item.guid || item.link || item.title || "";
-            
-            const existingArticle = await storage.getArticleByGuid(feed.id, guid);
-            if (existingArticle) continue;
-
-            await storage.createArticle({
-              feedId: feed.id,
-              title: item.title || "Untitled",
-              url: item.link || "",
-              content: item["content:encoded"] || item.content || null,
-              summary: extractSummary(item.contentSnippet || item.content),
-              author: item.creator || item.author || null,
-              imageUrl: item.enclosure?.url || null,
-              publishedAt: item.pubDate ? new Date(item.pubDate) : new Date(),
-              isRead: false,
-              isBookmarked: false,
-              guid,
-            });
-            totalNewArticles++;
-          }
+      const existing = await storage.getFeed(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
 
-          await storage.updateFeed(feed.id, { 
-            lastFetched: new Date(),
-            errorCount: 0,
-          });
-        } catch (feedError) {
-          console.error(`Error refreshing feed ${feed.id}:`, feedError);
-          await storage.updateFeed(feed.id, { 
-            errorCount: (feed.errorCount || 0) + 1 
-          });
-        }
-      });
+      // Reschedule from the last fetch so a new interval takes effect right away
+      const updates: FeedUpdate = { ...parsed.data };
+      if (parsed.data.refreshInterval !== undefined) {
+        updates.nextFetchAt = nextFetchTime(
+          { ...existing, refreshInterval: parsed.data.refreshInterval ?? null },
+          existing.lastFetched ?? new Date()
+        );
+      }
 
-      res.json({ success: true, newArticles: totalNewArticles });
+      // Switching a feed back on clears why it was switched off and polls it again soon
+      if (parsed.data.isActive && !existing.isActive) {
+        updates.inactiveReason = null;
+        updates.errorCount = 0;
+        updates.nextFetchAt = new Date();
+      }
+
+      // New credentials may fix a feed that was failing, so try them soon
+      if (credentials !== undefined) {
+        Object.assign(updates, sealFeedCredentials(credentials));
+        updates.nextFetchAt = new Date();
+      }
+
+      const feed = await storage.updateFeed(req.params.id, updates);
+      res.json(feed && publicFeed(feed));
+    } catch (error) {
+      console.error("Error updating feed:", error);
+      res.status(500).json({ error: "Failed to update feed" });
+    }
+  });
+
+  app.post("/api/feeds/refresh", async (_req, res) => {
+    try {
+      const feeds = await storage.getActiveFeeds();
+      const now = new Date();
+      // Manual refresh forces healthy feeds, but failing feeds keep their backoff
+      const activeFeeds = feeds.filter(f =>
+        !((f.errorCount || 0) > 0 && f.nextFetchAt && f.nextFetchAt > now)
+      );
+      const reports = await refreshFeeds(activeFeeds);
+
+      res.json({ success: true, newArticles: countNewArticles(reports), reports });
     } catch (error) {
       console.error("Error refreshing feeds:", error);
       res.status(500).json({ error: "Failed to refresh feeds" });
     }
   });
 
+  // The feed's icon, as found by server/feed-icons.ts
+  app.get("/api/feeds/:id/icon", async (req, res) => {
+    try {
+      const icon = await storage.getFeedIcon(req.params.id);
+      if (!icon) {
+        return res.status(404).json({ error: "Icon not found" });
+      }
+
+      const etag = `"${icon.updatedAt.getTime().toString(36)}"`;
+      res.set({
+        "Cache-Control": "public, max-age=86400",
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      });
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+      res.type(icon.contentType).send(icon.data);
+    } catch (error) {
+      console.error("Error fetching feed icon:", error);
+      res.status(500).json({ error: "Failed to fetch feed icon" });
+    }
+  });
+
+  // Fetch history for the feed diagnostics page
+  app.get("/api/feeds/:id/fetch-log", async (req, res) => {
+    try {
+      const feed = await storage.getFeed(req.params.id);
+      if (!feed) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
+      const entries = await storage.getFetchLog(feed.id);
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching feed fetch log:", error);
+      res.status(500).json({ error: "Failed to fetch feed fetch log" });
+    }
+  });
+
+  // Fetch one feed right away and return what the parser saw
+  app.post("/api/feeds/:id/fetch", async (req, res) => {
+    try {
+      const feed = await storage.getFeed(req.params.id);
+      if (!feed) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
+
+      if (feed.newsletterInboxId) {
+        return res.status(400).json({ error: "Newsletter feeds receive mail and are never fetched" });
+      }
+
+      // Skip the conditional GET so there is always a body to show
+      const { report, result, durationMs, error } = await fetchFeed({ ...feed, etag: null, lastModified: null });
+      res.json({
+        report,
+        durationMs,
+        error,
+        status: result?.status ?? null,
+        format: result?.format ?? null,
+        bytes: result?.bytes ?? null,
+        warnings: result?.warnings ?? [],
+        movedTo: result?.movedTo ?? null,
+        feed: result?.feed ?? null,
+      });
+    } catch (error) {
+      console.error("Error fetching feed:", error);
+      res.status(500).json({ error: "Failed to fetch feed" });
+    }
+  });
+
+  // Import a feed's older articles in the background; poll GET for progress
+  app.post("/api/feeds/:id/backfill", async (req, res) => {
+    try {
+      const feed = await storage.getFeed(req.params.id);
+      if (!feed) {
+        return res.status(404).json({ error: "Feed not found" });
+      }
+
+      if (feed.newsletterInboxId || feed.scrapeSelectors) {
+        return res.status(400).json({ error: "Only RSS, Atom and JSON feeds have history to backfill" });
+      }
+      if (getBackfillProgress(feed.id)?.state === "running") {
+        return res.status(409).json({ error: "The feed's history is already being backfilled" });
+      }
+
+      res.status(202).json(startBackfill(feed));
+    } catch (error) {
+      console.error("Error starting backfill:", error);
+      res.status(500).json({ error: "Failed to start backfill" });
+    }
+  });
+
+  app.get("/api/feeds/:id/backfill", async (req, res) => {
+    res.json(getBackfillProgress(req.params.id));
+  });
+
+  // Background refresh schedule
+  app.get("/api/scheduler/status", async (_req, res) => {
+    try {
+      const status = await getSchedulerStatus();
+      res.json(status);
+    } catch (error) {
+      console.error("Error fetching scheduler status:", error);
+      res.status(500).json({ error: "Failed to fetch scheduler status" });
+    }
+  });
+
+  // WebSub callback: hubs verify subscriptions with GET and push content with POST
+  app.get("/api/websub/:feedId", async (req, res) => {
+    try {
+      const result = await verifyIntent(req.params.feedId, req.query);
+      res.status(result.status).type("text/plain").send(result.body);
+    } catch (error) {
+      console.error("Error verifying WebSub intent:", error);
+      res.status(500).type("text/plain").send("Verification failed");
+    }
+  });
+
+  app.post("/api/websub/:feedId", express.raw({ type: "*/*", limit: "5mb" }), async (req, res) => {
+    try {
+      const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+      const status = await handlePush(
+        req.params.feedId,
+        body,
+        req.get("X-Hub-Signature"),
+        req.get("Content-Type")
+      );
+      res.status(status).send();
+    } catch (error) {
+      console.error("Error handling WebSub push:", error);
+      res.status(500).send();
+    }
+  });
+
   // Articles
   app.get("/api/articles", async (req, res) => {
     try {
-      const { feedId, unread, bookmarked, search } = req.query;
+      const { feedId, unread, bookmarked, podcasts, search } = req.query;
 
       const articles = await storage.getArticles({
         feedId: feedId as string | undefined,
         unread: unread === "true",
         bookmarked: bookmarked === "true",
+        podcasts: podcasts === "true",
         search: search as string | undefined,
       });
 
@@ -475,19 +533,69 @@ export async function registerRoutes(
     }
   });
 
+  // Extract (or re-extract) the article's page in reader mode and store the result
+  app.post("/api/articles/:id/extract", async (req, res) => {
+    try {
+      const article = await storage.getArticle(req.params.id);
+      if (!article) {
+        return res.status(404).json({ error: "Article not found" });
+      }
+
+      const found = await extractAndStore(article);
+      if (!found) {
+        return res.status(422).json({ error: "No readable content found on the page" });
+      }
+
+      res.json(await storage.getArticle(article.id));
+    } catch (error) {
+      if (error instanceof ExtractionRateLimitError) {
+        res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+        return res.status(429).json({ error: error.message });
+      }
+      if (error instanceof BlockedRequestError || error instanceof ExtractionError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error extracting article:", error);
+      res.status(500).json({ error: "Failed to extract article content" });
+    }
+  });
+
+  // Earlier versions of an article the publisher has since edited
+  app.get("/api/articles/:id/revisions", async (req, res) => {
+    try {
+      const article = await storage.getArticle(req.params.id);
+      if (!article) {
+        return res.status(404).json({ error: "Article not found" });
+      }
+      const revisions = await storage.getArticleRevisions(article.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching article revisions:", error);
+      res.status(500).json({ error: "Failed to fetch article revisions" });
+    }
+  });
+
   app.patch("/api/articles/:id", async (req, res) => {
     try {
-      const { isRead, isBookmarked } = req.body;
+      const { isRead, isBookmarked, playbackPosition } = req.body;
       
-      const updateData: { isRead?: boolean; isBookmarked?: boolean } = {};
+      const updateData: { isRead?: boolean; isBookmarked?: boolean; playbackPosition?: number } = {};
       if (typeof isRead === "boolean") updateData.isRead = isRead;
       if (typeof isBookmarked === "boolean") updateData.isBookmarked = isBookmarked;
+      if (typeof playbackPosition === "number" && playbackPosition >= 0) {
+        updateData.playbackPosition = Math.floor(playbackPosition);
+      }
 
       const article = await storage.updateArticle(req.params.id, updateData);
       if (!article) {
         return res.status(404).json({ error: "Article not found" });
       }
 
+      // Reading a story once covers every feed's copy of it
+      if (updateData.isRead !== undefined && article.clusterId) {
+        await storage.setClusterRead(article.clusterId, updateData.isRead);
+      }
+
       res.json(article);
     } catch (error) {
       console.error("Error updating article:", error);
@@ -506,6 +614,17 @@ export async function registerRoutes(
     }
   });
 
+  // Merge feeds that were added more than once under different spellings of the same URL
+  app.post("/api/maintenance/merge-duplicate-feeds", async (_req, res) => {
+    try {
+      const report = await mergeDuplicateFeeds();
+      res.json(report);
+    } catch (error) {
+      console.error("Error merging duplicate feeds:", error);
+      res.status(500).json({ error: "Failed to merge duplicate feeds" });
+    }
+  });
+
   // Feed health stats
   app.get("/api/feeds/health", async (_req, res) => {
     try {
@@ -520,7 +639,8 @@ export async function registerRoutes(
   // OPML Export
   app.get("/api/opml/export", async (_req, res) => {
     try {
-      const feeds = await storage.getFeeds();
+      // Newsletter feeds have no URL another reader could subscribe to
+      const feeds = (await storage.getFeeds()).filter((feed) => !feed.newsletterInboxId);
       const categories = await storage.getCategories();
 
       let opml = `<?xml version="1.0" encoding="UTF-8"?>
@@ -613,23 +733,23 @@ export async function registerRoutes(
 
       for (const feedInfo of feedUrls) {
         try {
-          // Check if feed already exists
-          const existing = await storage.getFeedByUrl(feedInfo.url);
+          const url = cleanUrl(normalizeUrl(feedInfo.url.replace(/&amp;/g, "&")));
+
+          // Check if feed already exists, under this or any equivalent spelling
+          const existing = await storage.getFeedByUrl(url);
           if (existing) {
             skipped++;
             continue;
           }
 
           // Try to parse the feed
-          const result = await parseFeed(feedInfo.url);
+          const result = await parseFeed(url);
           if (!result.success || !result.feed) {
             errors.push(`Failed to parse: ${feedInfo.url}`);
             continue;
           }
 
           const { feed: parsedFeed } = result;
-          const siteUrl = parsedFeed.link || feedInfo.url;
-          const favicon = await getFaviconUrl(siteUrl);
 
           // Create category if needed
           let categoryId: string | null = null;
@@ -647,38 +767,22 @@ export async function registerRoutes(
           // Create the feed
           const feed = await storage.createFeed({
             title: feedInfo.title || parsedFeed.title || "Untitled Feed",
-            url: feedInfo.url,
+            url,
             siteUrl: parsedFeed.link || null,
             description: parsedFeed.description || null,
-            favicon,
             categoryId,
             isActive: true,
           });
 
           // Add articles
-          const items = parsedFeed.items || [];
-          for (const item of items.slice(0, 20)) {
-            const guid = item.guid || item.link || item.title || "";
-            
-            const existingArticle = await storage.getArticleByGuid(feed.id, guid);
-            if (existingArticle) continue;
-
-            await storage.createArticle({
-              feedId: feed.id,
-              title: item.title || "Untitled",
-              url: item.link || "",
-              content: item["content:encoded"] || item.content || null,
-              summary: extractSummary(item.contentSnippet || item.content),
-              author: item.creator || item.author || null,
-              imageUrl: item.enclosure?.url || null,
-              publishedAt: item.pubDate ? new Date(item.pubDate) : new Date(),
-              isRead: false,
-              isBookmarked: false,
-              guid,
-            });
-          }
+          await ingestItems(feed, parsedFeed.items || []);
 
-          await storage.updateFeed(feed.id, { lastFetched: new Date() });
+          const now = new Date();
+          await storage.updateFeed(feed.id, {
+            lastFetched: now,
+            nextFetchAt: nextFetchTime(feed, now),
+            ...cacheValidators(result),
+          });
           imported++;
         } catch (err) {
           errors.push(`Error importing ${feedInfo.url}: ${err instanceof Error ? err.message : "Unknown error"}`);
@@ -707,25 +811,7 @@ export async function registerRoutes(
         return res.status(400).json({ error: "URL is required" });
       }
 
-      // Fetch the article page
-      const response = await fetch(url, {
-        headers: {
-          "User-Agent": "Mozilla/5.0 (compatible; ModernFeed/1.0)",
-        },
-        signal: AbortSignal.timeout(15000),
-      });
-
-      if (!response.ok) {
-        return res.status(400).json({ error: "Failed to fetch article" });
-      }
-
-      const html = await response.text();
-      
-      // Parse with Readability
-      const dom = new JSDOM(html, { url });
-      const reader = new Readability(dom.window.document);
-      const article = reader.parse();
-
+      const article = await extractArticle(url);
       if (!article) {
         return res.json({ content: null, title: null });
       }
@@ -738,11 +824,170 @@ export async function registerRoutes(
         siteName: article.siteName,
       });
     } catch (error) {
+      if (error instanceof ExtractionRateLimitError) {
+        res.set("Retry-After", String(Math.ceil(error.retryAfterMs / 1000)));
+        return res.status(429).json({ error: error.message });
+      }
+      if (error instanceof BlockedRequestError || error instanceof ExtractionError) {
+        return res.status(400).json({ error: error.message });
+      }
       console.error("Error extracting article:", error);
       res.status(500).json({ error: "Failed to extract article content" });
     }
   });
 
+  // Images in article content and thumbnails, fetched and cached by the server
+  app.get("/api/image-proxy", async (req, res) => {
+    const { url, w } = req.query;
+    if (!url || typeof url !== "string" || !URL.canParse(url)) {
+      return res.status(400).json({ error: "A valid image URL is required" });
+    }
+    const width = typeof w === "string" && /^\d+$/.test(w) ? thumbnailWidth(parseInt(w, 10)) : undefined;
+
+    try {
+      const image = await getProxiedImage(url, width);
+      const etag = `"${image.etag}"`;
+      res.set({
+        "Cache-Control": "public, max-age=2592000, immutable",
+        ETag: etag,
+        "X-Content-Type-Options": "nosniff",
+        // SVGs can carry scripts; never let them run when opened directly
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+      });
+      if (req.headers["if-none-match"] === etag) {
+        return res.status(304).end();
+      }
+      res.type(image.contentType).send(image.body);
+    } catch (error) {
+      if (error instanceof BlockedRequestError) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(502).json({ error: error instanceof Error ? error.message : "Failed to load image" });
+    }
+  });
+
+  // Retention and storage, for the settings page
+  app.get("/api/settings/retention", async (_req, res) => {
+    try {
+      res.json(await getRetentionPolicy());
+    } catch (error) {
+      console.error("Error fetching retention settings:", error);
+      res.status(500).json({ error: "Failed to fetch retention settings" });
+    }
+  });
+
+  app.put("/api/settings/retention", async (req, res) => {
+    try {
+      const parsed = retentionPolicySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || parsed.error.message });
+      }
+      await saveRetentionPolicy(parsed.data);
+      res.json(parsed.data);
+    } catch (error) {
+      console.error("Error saving retention settings:", error);
+      res.status(500).json({ error: "Failed to save retention settings" });
+    }
+  });
+
+  app.get("/api/storage", async (_req, res) => {
+    try {
+      const stats = await storage.getStorageStats();
+      res.json({ ...stats, imageCache: await getImageCacheStats(), lastCleanupAt: getLastCleanupAt() });
+    } catch (error) {
+      console.error("Error fetching storage stats:", error);
+      res.status(500).json({ error: "Failed to fetch storage stats" });
+    }
+  });
+
+  // Apply the retention policies now, to one feed or all of them
+  app.post("/api/storage/purge", async (req, res) => {
+    try {
+      const { feedId } = req.body ?? {};
+      if (feedId !== undefined && typeof feedId !== "string") {
+        return res.status(400).json({ error: "feedId must be a string" });
+      }
+      res.json(await runCleanup(feedId));
+    } catch (error) {
+      console.error("Error purging articles:", error);
+      res.status(500).json({ error: "Failed to purge articles" });
+    }
+  });
+
+  // Newsletter inboxes: addresses newsletters are subscribed with, see server/newsletters.ts
+  app.get("/api/newsletters", async (_req, res) => {
+    try {
+      const inboxes = await storage.getNewsletterInboxes();
+      res.json({
+        domain: NEWSLETTER_DOMAIN,
+        listening: isNewsletterListenerRunning(),
+        inboxes: inboxes.map((inbox) => ({ ...inbox, address: inboxAddress(inbox) })),
+      });
+    } catch (error) {
+      console.error("Error fetching newsletter inboxes:", error);
+      res.status(500).json({ error: "Failed to fetch newsletter inboxes" });
+    }
+  });
+
+  app.post("/api/newsletters/inboxes", async (req, res) => {
+    try {
+      const parsed = insertNewsletterInboxSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || parsed.error.message });
+      }
+      const inbox = await storage.createNewsletterInbox({ ...parsed.data, token: newInboxToken(parsed.data.name) });
+      res.status(201).json({ ...inbox, address: inboxAddress(inbox) });
+    } catch (error) {
+      console.error("Error creating newsletter inbox:", error);
+      res.status(500).json({ error: "Failed to create newsletter inbox" });
+    }
+  });
+
+  app.delete("/api/newsletters/inboxes/:id", async (req, res) => {
+    try {
+      const deleted = await storage.deleteNewsletterInbox(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Newsletter inbox not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting newsletter inbox:", error);
+      res.status(500).json({ error: "Failed to delete newsletter inbox" });
+    }
+  });
+
+  // File the messages of an uploaded .eml or mbox file into the inbox
+  app.post("/api/newsletters/inboxes/:id/import", express.raw({ type: "*/*", limit: "50mb" }), async (req, res) => {
+    try {
+      const inbox = await storage.getNewsletterInbox(req.params.id);
+      if (!inbox) {
+        return res.status(404).json({ error: "Newsletter inbox not found" });
+      }
+      // Split as latin1 so 8-bit message bodies come through byte for byte
+      const messages = Buffer.isBuffer(req.body) ? splitMbox(req.body.toString("latin1")) : [];
+      if (messages.length === 0) {
+        return res.status(400).json({ error: "Upload an .eml or mbox file" });
+      }
+
+      const result = { messages: messages.length, imported: 0, updated: 0, newFeeds: 0, failed: 0 };
+      for (const message of messages) {
+        try {
+          const delivery = await deliverMessage(inbox, Buffer.from(message, "latin1"));
+          result.imported += delivery.report.new;
+          result.updated += delivery.report.updated;
+          if (delivery.newFeed) result.newFeeds++;
+        } catch (error) {
+          console.error("[newsletters] Error importing message:", error);
+          result.failed++;
+        }
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("Error importing newsletters:", error);
+      res.status(500).json({ error: "Failed to import newsletters" });
+    }
+  });
+
   return httpServer;
 }
 
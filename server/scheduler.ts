@@ -0,0 +1,75 @@
+import { storage } from "./storage";
+import { refreshFeeds, countNewArticles } from "./feed-fetcher";
+import { getRefreshInterval, DEFAULT_REFRESH_INTERVAL } from "./polling";
+import { renewExpiringSubscriptions } from "./websub";
+import { refreshStaleIcons } from "./feed-icons";
+import { runCleanupIfDue } from "./retention";
+
+// How often the scheduler checks for feeds that are due
+const TICK_INTERVAL_MS = 60 * 1000;
+
+let timer: NodeJS.Timeout | null = null;
+let isRunning = false;
+let lastRunAt: Date | null = null;
+let lastRunNewArticles = 0;
+
+async function tick() {
+  // Skip this tick if the previous batch is still fetching
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    const dueFeeds = await storage.getDueFeeds(new Date());
+    if (dueFeeds.length > 0) {
+      lastRunNewArticles = countNewArticles(await refreshFeeds(dueFeeds));
+      console.log(`[scheduler] refreshed ${dueFeeds.length} feeds, ${lastRunNewArticles} new articles`);
+    }
+    await renewExpiringSubscriptions();
+    void refreshStaleIcons();
+    await runCleanupIfDue();
+    lastRunAt = new Date();
+  } catch (error) {
+    console.error("[scheduler] Error refreshing due feeds:", error);
+  } finally {
+    isRunning = false;
+  }
+}
+
+// Start polling feeds in the background. Safe to call more than once.
+export function startScheduler() {
+  if (timer) return;
+
+  timer = setInterval(tick, TICK_INTERVAL_MS);
+  timer.unref();
+
+  // Pick up feeds that became due while the server was down
+  void tick();
+}
+
+export function stopScheduler() {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+}
+
+export async function getSchedulerStatus() {
+  const feeds = await storage.getFeeds();
+
+  return {
+    enabled: timer !== null,
+    running: isRunning,
+    defaultInterval: DEFAULT_REFRESH_INTERVAL,
+    lastRunAt,
+    lastRunNewArticles,
+    feeds: feeds.map((feed) => ({
+      id: feed.id,
+      title: feed.title,
+      isActive: feed.isActive,
+      refreshInterval: getRefreshInterval(feed),
+      errorCount: feed.errorCount,
+      lastFetched: feed.lastFetched,
+      nextFetchAt: feed.nextFetchAt,
+    })),
+  };
+}
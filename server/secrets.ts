@@ -0,0 +1,90 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { feedCredentialsSchema, type FeedCredentials } from "@shared/schema";
+
+// Feed credentials are encrypted with AES-256-GCM under a key derived from
+// FEED_CREDENTIALS_KEY, so a database dump alone doesn't reveal them. Losing
+// or changing the key makes stored credentials unreadable; they then have to
+// be entered again.
+
+const ALGORITHM = "aes-256-gcm";
+const VERSION = "v1";
+
+const KEY_SOURCE = process.env.FEED_CREDENTIALS_KEY;
+const key = KEY_SOURCE ? createHash("sha256").update(KEY_SOURCE).digest() : null;
+
+export function canStoreSecrets(): boolean {
+  return key !== null;
+}
+
+// Encrypt a string as "v1.<iv>.<auth tag>.<ciphertext>", base64 parts
+export function encryptSecret(plaintext: string): string {
+  if (!key) throw new Error("FEED_CREDENTIALS_KEY is not set");
+
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [VERSION, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  if (!key) throw new Error("FEED_CREDENTIALS_KEY is not set");
+
+  const [version, iv, tag, ciphertext] = payload.split(".");
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error("Unrecognised secret format");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// The authType and encrypted credentials columns for a feed; clears both
+// when there is nothing to send
+export function sealFeedCredentials(credentials: FeedCredentials | null) {
+  const hasHeaders = !!credentials && credentials.headers.length > 0;
+  if (!credentials || (credentials.authType === "none" && !hasHeaders)) {
+    return { authType: null, credentials: null };
+  }
+
+  return {
+    authType: credentials.authType === "none" ? "headers" : credentials.authType,
+    credentials: encryptSecret(JSON.stringify(credentials)),
+  };
+}
+
+// Decrypt a feed's stored credentials; null when it has none or they can't be read
+export function openFeedCredentials(feed: { id: string; credentials: string | null }): FeedCredentials | null {
+  if (!feed.credentials) return null;
+
+  try {
+    return feedCredentialsSchema.parse(JSON.parse(decryptSecret(feed.credentials)));
+  } catch (error) {
+    console.error(`[secrets] could not read credentials of feed ${feed.id}:`, error);
+    return null;
+  }
+}
+
+// Request headers that authenticate a fetch with the given credentials
+export function credentialHeaders(credentials: FeedCredentials | null): Record<string, string> {
+  if (!credentials) return {};
+
+  const headers: Record<string, string> = {};
+  for (const { name, value } of credentials.headers) {
+    headers[name] = value;
+  }
+
+  if (credentials.authType === "basic") {
+    const encoded = Buffer.from(`${credentials.username}:${credentials.password}`, "utf8").toString("base64");
+    headers["Authorization"] = `Basic ${encoded}`;
+  } else if (credentials.authType === "bearer") {
+    headers["Authorization"] = `Bearer ${credentials.token}`;
+  }
+
+  return headers;
+}
@@ -3,9 +3,19 @@ import {
   feeds,
   articles,
   categories,
+  websubSubscriptions,
+  articleRevisions,
+  storyClusters,
+  feedRedirects,
+  feedFetchLog,
+  feedIcons,
+  newsletterInboxes,
+  purgedArticles,
+  appSettings,
   type User,
   type InsertUser,
   type Feed,
+  type PublicFeed,
   type InsertFeed,
   type Article,
   type InsertArticle,
@@ -13,9 +23,96 @@ import {
   type InsertCategory,
   type FeedWithCategory,
   type ArticleWithFeed,
+  type WebSubSubscription,
+  type InsertWebSubSubscription,
+  type ArticleRevision,
+  type InsertArticleRevision,
+  type FeedRedirect,
+  type InsertFeedRedirect,
+  type FeedFetchLog,
+  type InsertFeedFetchLog,
+  type FeedIcon,
+  type WebPageSelectors,
+  type NewsletterInbox,
+  type InsertNewsletterInbox,
+  type RetentionPolicy,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, ilike, or, sql, count } from "drizzle-orm";
+import { canonicalizeUrl } from "./urls";
+import { eq, desc, and, ilike, or, sql, count, isNull, isNotNull, lte, gte, like, inArray, getTableColumns } from "drizzle-orm";
+
+// Fields the server maintains on a feed in addition to the user-editable ones
+export type FeedUpdate = Partial<InsertFeed & {
+  inactiveReason?: string | null;
+  lastFetched?: Date;
+  errorCount?: number;
+  lastError?: string | null;
+  iconCheckedAt?: Date | null;
+  nextFetchAt?: Date | null;
+  adaptiveInterval?: number | null;
+  ttl?: number | null;
+  skipHours?: number[] | null;
+  skipDays?: string[] | null;
+  etag?: string | null;
+  lastModified?: string | null;
+  contentLength?: number | null;
+  bytesSaved?: number;
+  authType?: string | null;
+  credentials?: string | null;
+  scrapeSelectors?: WebPageSelectors | null;
+}>;
+
+// Rows per INSERT statement when upserting articles
+const UPSERT_BATCH_SIZE = 500;
+
+export interface UpsertArticlesResult {
+  inserted: number;
+  updated: number;
+  // Existing rows whose title or content changed; their old versions were saved as revisions
+  revised: number;
+  // Rows that didn't exist before, for follow-up enrichment
+  newArticles: Pick<Article, "id" | "url" | "imageUrl">[];
+}
+
+// What story clustering needs to know about an article
+export type ClusterCandidate = Pick<Article, "id" | "feedId" | "clusterId" | "canonicalUrl" | "fingerprint" | "publishedAt">;
+
+// Fetch log entries kept per feed; older ones are pruned as new ones arrive
+const FETCH_LOG_ENTRIES_PER_FEED = 200;
+
+// How recently a feed must have moved to be shown in the health banner
+const RECENT_REDIRECT_DAYS = 7;
+
+export interface FeedHealthStats {
+  totalFeeds: number;
+  failingFeeds: number;
+  feedsWithErrors: PublicFeed[];
+  // Feeds the fetcher switched off because the server said they're gone for good
+  goneFeeds: PublicFeed[];
+  // Feeds that moved to a new URL in the last week
+  movedFeeds: (FeedRedirect & { feedTitle: string })[];
+  // Bytes not downloaded thanks to 304 Not Modified responses
+  bytesSaved: number;
+}
+
+// Article counts and approximate space used, per feed, for the settings page
+export interface FeedStorageStats {
+  feedId: string;
+  title: string;
+  articles: number;
+  unread: number;
+  bookmarked: number;
+  // Sum of the stored size of the feed's article rows, including compressed content
+  bytes: number;
+  oldestPublishedAt: Date | null;
+}
+
+export interface StorageStats {
+  databaseBytes: number;
+  // The articles table with its indexes and out-of-line content
+  articlesBytes: number;
+  feeds: FeedStorageStats[];
+}
 
 export interface IStorage {
   // Users
@@ -32,28 +129,71 @@ export interface IStorage {
 
   // Feeds
   getFeeds(): Promise<FeedWithCategory[]>;
+  getActiveFeeds(): Promise<Feed[]>;
   getFeed(id: string): Promise<Feed | undefined>;
   getFeedByUrl(url: string): Promise<Feed | undefined>;
-  createFeed(feed: InsertFeed): Promise<Feed>;
-  updateFeed(id: string, feed: Partial<InsertFeed & { lastFetched?: Date; errorCount?: number }>): Promise<Feed | undefined>;
+  createFeed(feed: InsertFeed & { newsletterInboxId?: string | null }): Promise<Feed>;
+  updateFeed(id: string, feed: FeedUpdate): Promise<Feed | undefined>;
   deleteFeed(id: string): Promise<boolean>;
+  getDueFeeds(now: Date): Promise<Feed[]>;
+  getFeedsWithArticleCounts(): Promise<(Feed & { articleCount: number })[]>;
+  recordFeedRedirect(redirect: InsertFeedRedirect): Promise<FeedRedirect>;
+  addFetchLogEntry(entry: InsertFeedFetchLog): Promise<FeedFetchLog>;
+  getFetchLog(feedId: string, limit?: number): Promise<FeedFetchLog[]>;
+  mergeFeeds(keeperId: string, duplicateIds: string[]): Promise<void>;
+  getFeedIcon(feedId: string): Promise<FeedIcon | undefined>;
+  saveFeedIcon(feedId: string, icon: Pick<FeedIcon, "contentType" | "data">): Promise<void>;
+  getFeedsWithStaleIcons(checkedBefore: Date, limit: number): Promise<Feed[]>;
 
   // Articles
   getArticles(options?: {
     feedId?: string;
     unread?: boolean;
     bookmarked?: boolean;
+    podcasts?: boolean;
     search?: string;
     limit?: number;
     offset?: number;
   }): Promise<ArticleWithFeed[]>;
   getArticle(id: string): Promise<ArticleWithFeed | undefined>;
   getArticleByGuid(feedId: string, guid: string): Promise<Article | undefined>;
+  getRecentPublishDates(feedId: string, limit: number): Promise<Date[]>;
   createArticle(article: InsertArticle): Promise<Article>;
+  upsertArticles(articles: InsertArticle[]): Promise<UpsertArticlesResult>;
   updateArticle(id: string, article: Partial<InsertArticle>): Promise<Article | undefined>;
+  getArticleRevisions(articleId: string): Promise<ArticleRevision[]>;
+  getClusterCandidatesById(ids: string[]): Promise<ClusterCandidate[]>;
+  getClusterCandidates(from: Date, to: Date): Promise<ClusterCandidate[]>;
+  createStoryCluster(leadArticleId: string): Promise<string>;
+  setClusterRead(clusterId: string, isRead: boolean): Promise<void>;
   markAllArticlesRead(feedId?: string): Promise<void>;
   getArticleStats(): Promise<{ unread: number; bookmarked: number }>;
-  getFeedHealthStats(): Promise<{ totalFeeds: number; failingFeeds: number; feedsWithErrors: Feed[] }>;
+  getFeedHealthStats(): Promise<FeedHealthStats>;
+
+  // Retention
+  purgeArticles(feedId: string, policy: RetentionPolicy, now: Date): Promise<number>;
+  touchPurgedGuids(feedId: string, guids: string[], seenAt: Date): Promise<Set<string>>;
+  prunePurgedArticles(seenBefore: Date): Promise<number>;
+  deleteEmptyStoryClusters(): Promise<number>;
+  getStorageStats(): Promise<StorageStats>;
+
+  // Settings
+  getSetting<T>(key: string): Promise<T | undefined>;
+  saveSetting<T>(key: string, value: T): Promise<void>;
+
+  // WebSub
+  getWebSubSubscription(feedId: string): Promise<WebSubSubscription | undefined>;
+  saveWebSubSubscription(subscription: InsertWebSubSubscription): Promise<WebSubSubscription>;
+  updateWebSubSubscription(feedId: string, subscription: Partial<InsertWebSubSubscription>): Promise<WebSubSubscription | undefined>;
+  deleteWebSubSubscription(feedId: string): Promise<boolean>;
+  getExpiringWebSubSubscriptions(before: Date, requestedBefore: Date): Promise<WebSubSubscription[]>;
+
+  // Newsletters
+  getNewsletterInboxes(): Promise<NewsletterInbox[]>;
+  getNewsletterInbox(id: string): Promise<NewsletterInbox | undefined>;
+  getNewsletterInboxByToken(token: string): Promise<NewsletterInbox | undefined>;
+  createNewsletterInbox(inbox: InsertNewsletterInbox & { token: string }): Promise<NewsletterInbox>;
+  deleteNewsletterInbox(id: string): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -101,6 +241,7 @@ export class DatabaseStorage implements IStorage {
   // Feeds
   async getFeeds(): Promise<FeedWithCategory[]> {
     const feedsWithCategories = await db.query.feeds.findMany({
+      columns: { credentials: false },
       with: {
         category: true,
       },
@@ -125,26 +266,41 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  // Feeds that are fetched; newsletter feeds receive mail instead
+  async getActiveFeeds(): Promise<Feed[]> {
+    return db
+      .select()
+      .from(feeds)
+      .where(and(eq(feeds.isActive, true), isNull(feeds.newsletterInboxId)))
+      .orderBy(feeds.title);
+  }
+
   async getFeed(id: string): Promise<Feed | undefined> {
     const [feed] = await db.select().from(feeds).where(eq(feeds.id, id));
     return feed || undefined;
   }
 
+  // Matches the exact URL or any spelling of it with the same canonical form
   async getFeedByUrl(url: string): Promise<Feed | undefined> {
-    const [feed] = await db.select().from(feeds).where(eq(feeds.url, url));
+    const canonicalUrl = canonicalizeUrl(url);
+    const [feed] = await db
+      .select()
+      .from(feeds)
+      .where(canonicalUrl ? or(eq(feeds.url, url), eq(feeds.canonicalUrl, canonicalUrl)) : eq(feeds.url, url));
     return feed || undefined;
   }
 
-  async createFeed(feed: InsertFeed): Promise<Feed> {
-    const [newFeed] = await db.insert(feeds).values(feed).returning();
+  async createFeed(feed: InsertFeed & { newsletterInboxId?: string | null }): Promise<Feed> {
+    const [newFeed] = await db
+      .insert(feeds)
+      .values({ ...feed, canonicalUrl: canonicalizeUrl(feed.url) })
+      .returning();
     return newFeed;
   }
 
-  async updateFeed(
-    id: string,
-    feed: Partial<InsertFeed & { lastFetched?: Date; errorCount?: number }>
-  ): Promise<Feed | undefined> {
-    const [updated] = await db.update(feeds).set(feed).where(eq(feeds.id, id)).returning();
+  async updateFeed(id: string, feed: FeedUpdate): Promise<Feed | undefined> {
+    const values = feed.url ? { ...feed, canonicalUrl: canonicalizeUrl(feed.url) } : feed;
+    const [updated] = await db.update(feeds).set(values).where(eq(feeds.id, id)).returning();
     return updated || undefined;
   }
 
@@ -153,11 +309,107 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async getFeedsWithArticleCounts(): Promise<(Feed & { articleCount: number })[]> {
+    const rows = await db
+      .select({ feed: feeds, articleCount: count(articles.id) })
+      .from(feeds)
+      .leftJoin(articles, eq(articles.feedId, feeds.id))
+      .groupBy(feeds.id);
+    return rows.map(({ feed, articleCount }) => ({ ...feed, articleCount }));
+  }
+
+  async recordFeedRedirect(redirect: InsertFeedRedirect): Promise<FeedRedirect> {
+    const [saved] = await db.insert(feedRedirects).values(redirect).returning();
+    return saved;
+  }
+
+  async addFetchLogEntry(entry: InsertFeedFetchLog): Promise<FeedFetchLog> {
+    const [saved] = await db.insert(feedFetchLog).values(entry).returning();
+
+    // Keep only the most recent entries for the feed
+    await db.execute(sql`
+      delete from ${feedFetchLog}
+      where feed_id = ${entry.feedId} and id not in (
+        select id from ${feedFetchLog} where feed_id = ${entry.feedId}
+        order by fetched_at desc limit ${FETCH_LOG_ENTRIES_PER_FEED}
+      )`);
+
+    return saved;
+  }
+
+  async getFetchLog(feedId: string, limit = 100): Promise<FeedFetchLog[]> {
+    return db
+      .select()
+      .from(feedFetchLog)
+      .where(eq(feedFetchLog.feedId, feedId))
+      .orderBy(desc(feedFetchLog.fetchedAt))
+      .limit(limit);
+  }
+
+  async getFeedIcon(feedId: string): Promise<FeedIcon | undefined> {
+    const [icon] = await db.select().from(feedIcons).where(eq(feedIcons.feedId, feedId));
+    return icon || undefined;
+  }
+
+  async saveFeedIcon(feedId: string, icon: Pick<FeedIcon, "contentType" | "data">): Promise<void> {
+    const values = { ...icon, updatedAt: new Date() };
+    await db
+      .insert(feedIcons)
+      .values({ feedId, ...values })
+      .onConflictDoUpdate({ target: feedIcons.feedId, set: values });
+  }
+
+  // Feeds whose icon was never looked up or not since checkedBefore, never-checked first
+  async getFeedsWithStaleIcons(checkedBefore: Date, limit: number): Promise<Feed[]> {
+    return db
+      .select()
+      .from(feeds)
+      .where(or(isNull(feeds.iconCheckedAt), lte(feeds.iconCheckedAt, checkedBefore)))
+      .orderBy(sql`${feeds.iconCheckedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  // Fold duplicate feeds into one, keeping every article once along with its
+  // read and bookmark state, then delete the duplicates
+  async mergeFeeds(keeperId: string, duplicateIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const duplicateId of duplicateIds) {
+        await tx.execute(sql`
+          update ${articles} as kept
+          set is_read = kept.is_read or dup.is_read,
+              is_bookmarked = kept.is_bookmarked or dup.is_bookmarked
+          from ${articles} as dup
+          where kept.feed_id = ${keeperId} and dup.feed_id = ${duplicateId} and dup.guid = kept.guid`);
+        await tx.execute(sql`
+          delete from ${articles} as dup
+          using ${articles} as kept
+          where dup.feed_id = ${duplicateId} and kept.feed_id = ${keeperId} and kept.guid = dup.guid`);
+        await tx.update(articles).set({ feedId: keeperId }).where(eq(articles.feedId, duplicateId));
+        await tx.delete(feeds).where(eq(feeds.id, duplicateId));
+      }
+    });
+  }
+
+  async getDueFeeds(now: Date): Promise<Feed[]> {
+    return db
+      .select()
+      .from(feeds)
+      .where(
+        and(
+          eq(feeds.isActive, true),
+          isNull(feeds.newsletterInboxId),
+          or(isNull(feeds.nextFetchAt), lte(feeds.nextFetchAt, now))
+        )
+      )
+      .orderBy(feeds.nextFetchAt);
+  }
+
   // Articles
   async getArticles(options?: {
     feedId?: string;
     unread?: boolean;
     bookmarked?: boolean;
+    podcasts?: boolean;
     search?: string;
     limit?: number;
     offset?: number;
@@ -176,6 +428,10 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(articles.isBookmarked, true));
     }
 
+    if (options?.podcasts) {
+      conditions.push(like(articles.enclosureType, "audio/%"));
+    }
+
     if (options?.search) {
       const searchPattern = `%${options.search}%`;
       conditions.push(
@@ -188,24 +444,54 @@ export class DatabaseStorage implements IStorage {
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
+    // Only the newest matching article of each story cluster is listed. Picking
+    // it before the limit and offset keeps pages full and stable from one to the next.
+    const story = sql`coalesce(${articles.clusterId}, ${articles.id})`;
+    const clusterLeads = db
+      .selectDistinctOn([story], { id: articles.id })
+      .from(articles)
+      .where(whereClause)
+      .orderBy(story, desc(articles.publishedAt), desc(articles.id));
+
     const result = await db.query.articles.findMany({
-      where: whereClause,
+      where: and(whereClause, inArray(articles.id, clusterLeads)),
+      columns: { extractedContent: false },
       with: {
-        feed: true,
+        feed: { columns: { credentials: false } },
       },
       orderBy: [desc(articles.publishedAt)],
       limit: options?.limit || 100,
       offset: options?.offset || 0,
     });
 
-    return result;
+    return this.addCoveringFeeds(result);
+  }
+
+  // List the other feeds covering each clustered article's story
+  private async addCoveringFeeds(list: ArticleWithFeed[]): Promise<ArticleWithFeed[]> {
+    const clusterIds = Array.from(new Set(list.map((article) => article.clusterId).filter((id): id is string => !!id)));
+    if (clusterIds.length === 0) return list;
+
+    const members = await db
+      .selectDistinct({ clusterId: articles.clusterId, id: feeds.id, title: feeds.title })
+      .from(articles)
+      .innerJoin(feeds, eq(articles.feedId, feeds.id))
+      .where(inArray(articles.clusterId, clusterIds));
+
+    return list.map((article) => {
+      if (!article.clusterId) return article;
+      const coveredBy = members
+        .filter((member) => member.clusterId === article.clusterId && member.id !== article.feedId)
+        .map(({ id, title }) => ({ id, title }));
+      return { ...article, coveredBy };
+    });
   }
 
   async getArticle(id: string): Promise<ArticleWithFeed | undefined> {
     const result = await db.query.articles.findFirst({
       where: eq(articles.id, id),
       with: {
-        feed: true,
+        feed: { columns: { credentials: false } },
       },
     });
 
@@ -220,16 +506,170 @@ export class DatabaseStorage implements IStorage {
     return article || undefined;
   }
 
+  async getRecentPublishDates(feedId: string, limit: number): Promise<Date[]> {
+    const rows = await db
+      .select({ publishedAt: articles.publishedAt })
+      .from(articles)
+      .where(and(eq(articles.feedId, feedId), isNotNull(articles.publishedAt)))
+      .orderBy(desc(articles.publishedAt))
+      .limit(limit);
+    return rows.map((row) => row.publishedAt!);
+  }
+
   async createArticle(article: InsertArticle): Promise<Article> {
     const [newArticle] = await db.insert(articles).values(article).returning();
     return newArticle;
   }
 
+  // Insert new articles and refresh changed ones in batches, keyed on (feed_id, guid).
+  // Read/bookmark state and the original publish date are left untouched. When an
+  // existing article's title or content changes, the old version is kept as a revision.
+  async upsertArticles(items: InsertArticle[]): Promise<UpsertArticlesResult> {
+    let updated = 0;
+    let revised = 0;
+    const newArticles: UpsertArticlesResult["newArticles"] = [];
+
+    for (let i = 0; i < items.length; i += UPSERT_BATCH_SIZE) {
+      const batch = items.slice(i, i + UPSERT_BATCH_SIZE);
+
+      await db.transaction(async (tx) => {
+        // Current versions of the rows this batch may overwrite
+        const existing = await tx
+          .select({
+            id: articles.id,
+            feedId: articles.feedId,
+            guid: articles.guid,
+            title: articles.title,
+            content: articles.content,
+            summary: articles.summary,
+          })
+          .from(articles)
+          .where(and(
+            inArray(articles.feedId, Array.from(new Set(batch.map((item) => item.feedId)))),
+            inArray(articles.guid, batch.map((item) => item.guid)),
+          ));
+
+        const incoming = new Map(batch.map((item) => [`${item.feedId}\n${item.guid}`, item]));
+        const revisions: InsertArticleRevision[] = [];
+        for (const current of existing) {
+          const item = incoming.get(`${current.feedId}\n${current.guid}`);
+          if (item && (item.title !== current.title || (item.content ?? null) !== current.content)) {
+            revisions.push({
+              articleId: current.id,
+              title: current.title,
+              content: current.content,
+              summary: current.summary,
+            });
+          }
+        }
+        if (revisions.length > 0) {
+          await tx.insert(articleRevisions).values(revisions);
+          revised += revisions.length;
+        }
+
+        const rows = await tx
+          .insert(articles)
+          .values(batch)
+          .onConflictDoUpdate({
+            target: [articles.feedId, articles.guid],
+            set: {
+              title: sql`excluded.title`,
+              url: sql`excluded.url`,
+              content: sql`excluded.content`,
+              summary: sql`excluded.summary`,
+              author: sql`excluded.author`,
+              // Keep an image found on the article page when the feed still has none
+              imageUrl: sql`coalesce(excluded.image_url, ${articles.imageUrl})`,
+              enclosureUrl: sql`excluded.enclosure_url`,
+              enclosureType: sql`excluded.enclosure_type`,
+              enclosureLength: sql`excluded.enclosure_length`,
+              duration: sql`excluded.duration`,
+              canonicalUrl: sql`excluded.canonical_url`,
+              fingerprint: sql`excluded.fingerprint`,
+              updatedAt: sql`case when (${articles.title}, ${articles.content}) is distinct from (excluded.title, excluded.content)
+                then now() else ${articles.updatedAt} end`,
+            },
+            // Only touch rows whose content actually changed
+            setWhere: sql`(${articles.title}, ${articles.url}, ${articles.content}, ${articles.summary}, ${articles.author}, ${articles.imageUrl}, ${articles.enclosureUrl}, ${articles.fingerprint})
+              is distinct from (excluded.title, excluded.url, excluded.content, excluded.summary, excluded.author, coalesce(excluded.image_url, ${articles.imageUrl}), excluded.enclosure_url, excluded.fingerprint)`,
+          })
+          // xmax is 0 for freshly inserted rows and set for updated ones
+          .returning({
+            id: articles.id,
+            url: articles.url,
+            imageUrl: articles.imageUrl,
+            inserted: sql<boolean>`(xmax = 0)`,
+          });
+
+        for (const { inserted, ...article } of rows) {
+          if (inserted) newArticles.push(article);
+          else updated++;
+        }
+      });
+    }
+
+    return { inserted: newArticles.length, updated, revised, newArticles };
+  }
+
   async updateArticle(id: string, article: Partial<InsertArticle>): Promise<Article | undefined> {
     const [updated] = await db.update(articles).set(article).where(eq(articles.id, id)).returning();
     return updated || undefined;
   }
 
+  async getClusterCandidatesById(ids: string[]): Promise<ClusterCandidate[]> {
+    return db
+      .select({
+        id: articles.id,
+        feedId: articles.feedId,
+        clusterId: articles.clusterId,
+        canonicalUrl: articles.canonicalUrl,
+        fingerprint: articles.fingerprint,
+        publishedAt: articles.publishedAt,
+      })
+      .from(articles)
+      .where(inArray(articles.id, ids));
+  }
+
+  // Articles published in a time window that have something to match on
+  async getClusterCandidates(from: Date, to: Date): Promise<ClusterCandidate[]> {
+    return db
+      .select({
+        id: articles.id,
+        feedId: articles.feedId,
+        clusterId: articles.clusterId,
+        canonicalUrl: articles.canonicalUrl,
+        fingerprint: articles.fingerprint,
+        publishedAt: articles.publishedAt,
+      })
+      .from(articles)
+      .where(and(
+        gte(articles.publishedAt, from),
+        lte(articles.publishedAt, to),
+        or(isNotNull(articles.canonicalUrl), isNotNull(articles.fingerprint)),
+      ))
+      .orderBy(articles.publishedAt);
+  }
+
+  // Start a cluster around an existing article and return its id
+  async createStoryCluster(leadArticleId: string): Promise<string> {
+    const [cluster] = await db.insert(storyClusters).values({}).returning();
+    await db.update(articles).set({ clusterId: cluster.id }).where(eq(articles.id, leadArticleId));
+    return cluster.id;
+  }
+
+  async setClusterRead(clusterId: string, isRead: boolean): Promise<void> {
+    await db.update(articles).set({ isRead }).where(eq(articles.clusterId, clusterId));
+  }
+
+  // Previous versions of an article, newest first
+  async getArticleRevisions(articleId: string): Promise<ArticleRevision[]> {
+    return db
+      .select()
+      .from(articleRevisions)
+      .where(eq(articleRevisions.articleId, articleId))
+      .orderBy(desc(articleRevisions.revisedAt));
+  }
+
   async markAllArticlesRead(feedId?: string): Promise<void> {
     if (feedId) {
       await db.update(articles).set({ isRead: true }).where(eq(articles.feedId, feedId));
@@ -255,16 +695,210 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getFeedHealthStats(): Promise<{ totalFeeds: number; failingFeeds: number; feedsWithErrors: Feed[] }> {
-    const allFeeds = await db.select().from(feeds);
-    const feedsWithErrors = allFeeds.filter(feed => (feed.errorCount || 0) >= 3);
+  async getFeedHealthStats(): Promise<FeedHealthStats> {
+    const { credentials, ...publicColumns } = getTableColumns(feeds);
+    const allFeeds = await db.select(publicColumns).from(feeds);
+    const feedsWithErrors = allFeeds.filter(feed => (feed.errorCount || 0) >= 3 && feed.isActive);
+    const goneFeeds = allFeeds.filter(feed => !feed.isActive && feed.inactiveReason);
+    const bytesSaved = allFeeds.reduce((total, feed) => total + (feed.bytesSaved || 0), 0);
+
+    const since = new Date(Date.now() - RECENT_REDIRECT_DAYS * 24 * 60 * 60 * 1000);
+    const movedFeeds = await db
+      .select({ redirect: feedRedirects, feedTitle: feeds.title })
+      .from(feedRedirects)
+      .innerJoin(feeds, eq(feedRedirects.feedId, feeds.id))
+      .where(gte(feedRedirects.redirectedAt, since))
+      .orderBy(desc(feedRedirects.redirectedAt));
     
     return {
       totalFeeds: allFeeds.length,
       failingFeeds: feedsWithErrors.length,
       feedsWithErrors,
+      goneFeeds,
+      movedFeeds: movedFeeds.map(({ redirect, feedTitle }) => ({ ...redirect, feedTitle })),
+      bytesSaved,
+    };
+  }
+
+  // Retention
+  // Delete the feed's articles the policy doesn't keep and remember their guids
+  // in purged_articles; returns how many were deleted
+  async purgeArticles(feedId: string, policy: RetentionPolicy, now: Date): Promise<number> {
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+    const limits = [];
+    if (policy.maxAgeDays) {
+      limits.push(sql`published_at < ${daysAgo(policy.maxAgeDays)}`);
+    }
+    if (policy.maxItems) {
+      limits.push(sql`id not in (
+        select id from ${articles} where feed_id = ${feedId}
+        order by published_at desc nulls last, id limit ${policy.maxItems})`);
+    }
+    if (limits.length === 0) return 0;
+
+    const keepUnread = policy.keepUnreadDays
+      ? sql`and not (is_read is not true and published_at >= ${daysAgo(policy.keepUnreadDays)})`
+      : sql``;
+
+    const result = await db.execute(sql`
+      with deleted as (
+        delete from ${articles}
+        where feed_id = ${feedId} and is_bookmarked is not true ${keepUnread}
+          and (${sql.join(limits, sql` or `)})
+        returning guid
+      )
+      insert into ${purgedArticles} (feed_id, guid, last_seen_at)
+      select ${feedId}, guid, ${now} from deleted
+      on conflict (feed_id, guid) do update set last_seen_at = excluded.last_seen_at`);
+    return result.rowCount ?? 0;
+  }
+
+  // Which of the guids were purged from the feed; marks them as still seen in it
+  async touchPurgedGuids(feedId: string, guids: string[], seenAt: Date): Promise<Set<string>> {
+    if (guids.length === 0) return new Set();
+    const rows = await db
+      .update(purgedArticles)
+      .set({ lastSeenAt: seenAt })
+      .where(and(eq(purgedArticles.feedId, feedId), inArray(purgedArticles.guid, guids)))
+      .returning({ guid: purgedArticles.guid });
+    return new Set(rows.map((row) => row.guid));
+  }
+
+  async prunePurgedArticles(seenBefore: Date): Promise<number> {
+    const result = await db.delete(purgedArticles).where(lte(purgedArticles.lastSeenAt, seenBefore)).returning();
+    return result.length;
+  }
+
+  // Clusters whose articles have all been deleted
+  async deleteEmptyStoryClusters(): Promise<number> {
+    const result = await db.execute(sql`
+      delete from ${storyClusters} as cluster
+      where not exists (select 1 from ${articles} where cluster_id = cluster.id)`);
+    return result.rowCount ?? 0;
+  }
+
+  async getStorageStats(): Promise<StorageStats> {
+    const feedRows = await db
+      .select({
+        feedId: feeds.id,
+        title: feeds.title,
+        articles: count(articles.id),
+        unread: sql<number>`count(${articles.id}) filter (where ${articles.isRead} is not true)`.mapWith(Number),
+        bookmarked: sql<number>`count(${articles.id}) filter (where ${articles.isBookmarked})`.mapWith(Number),
+        bytes: sql<number>`coalesce(sum(pg_column_size(${articles})), 0)`.mapWith(Number),
+        oldestPublishedAt: sql<Date | null>`min(${articles.publishedAt})`.mapWith((value) => value && new Date(value)),
+      })
+      .from(feeds)
+      .leftJoin(articles, eq(articles.feedId, feeds.id))
+      .groupBy(feeds.id)
+      .orderBy(desc(sql`coalesce(sum(pg_column_size(${articles})), 0)`));
+
+    const sizes = await db.execute<{ database_bytes: string; articles_bytes: string }>(sql`
+      select pg_database_size(current_database()) as database_bytes,
+             pg_total_relation_size('articles') as articles_bytes`);
+
+    return {
+      databaseBytes: Number(sizes.rows[0]?.database_bytes ?? 0),
+      articlesBytes: Number(sizes.rows[0]?.articles_bytes ?? 0),
+      feeds: feedRows,
     };
   }
+
+  // Settings
+  async getSetting<T>(key: string): Promise<T | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting ? (setting.value as T) : undefined;
+  }
+
+  async saveSetting<T>(key: string, value: T): Promise<void> {
+    const values = { value, updatedAt: new Date() };
+    await db
+      .insert(appSettings)
+      .values({ key, ...values })
+      .onConflictDoUpdate({ target: appSettings.key, set: values });
+  }
+
+  // WebSub
+  async getWebSubSubscription(feedId: string): Promise<WebSubSubscription | undefined> {
+    const [subscription] = await db
+      .select()
+      .from(websubSubscriptions)
+      .where(eq(websubSubscriptions.feedId, feedId));
+    return subscription || undefined;
+  }
+
+  async saveWebSubSubscription(subscription: InsertWebSubSubscription): Promise<WebSubSubscription> {
+    const [saved] = await db
+      .insert(websubSubscriptions)
+      .values(subscription)
+      .onConflictDoUpdate({ target: websubSubscriptions.feedId, set: subscription })
+      .returning();
+    return saved;
+  }
+
+  async updateWebSubSubscription(
+    feedId: string,
+    subscription: Partial<InsertWebSubSubscription>
+  ): Promise<WebSubSubscription | undefined> {
+    const [updated] = await db
+      .update(websubSubscriptions)
+      .set(subscription)
+      .where(eq(websubSubscriptions.feedId, feedId))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWebSubSubscription(feedId: string): Promise<boolean> {
+    const result = await db
+      .delete(websubSubscriptions)
+      .where(eq(websubSubscriptions.feedId, feedId))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Subscriptions whose lease runs out before `before`, and pending ones, as
+  // long as the last request to the hub was made before `requestedBefore`
+  async getExpiringWebSubSubscriptions(before: Date, requestedBefore: Date): Promise<WebSubSubscription[]> {
+    return db
+      .select()
+      .from(websubSubscriptions)
+      .where(
+        and(
+          or(
+            and(eq(websubSubscriptions.state, "subscribed"), lte(websubSubscriptions.leaseExpiresAt, before)),
+            eq(websubSubscriptions.state, "pending")
+          ),
+          or(isNull(websubSubscriptions.requestedAt), lte(websubSubscriptions.requestedAt, requestedBefore))
+        )
+      );
+  }
+
+  // Newsletters
+  async getNewsletterInboxes(): Promise<NewsletterInbox[]> {
+    return db.select().from(newsletterInboxes).orderBy(newsletterInboxes.name);
+  }
+
+  async getNewsletterInbox(id: string): Promise<NewsletterInbox | undefined> {
+    const [inbox] = await db.select().from(newsletterInboxes).where(eq(newsletterInboxes.id, id));
+    return inbox || undefined;
+  }
+
+  async getNewsletterInboxByToken(token: string): Promise<NewsletterInbox | undefined> {
+    const [inbox] = await db.select().from(newsletterInboxes).where(eq(newsletterInboxes.token, token));
+    return inbox || undefined;
+  }
+
+  async createNewsletterInbox(inbox: InsertNewsletterInbox & { token: string }): Promise<NewsletterInbox> {
+    const [created] = await db.insert(newsletterInboxes).values(inbox).returning();
+    return created;
+  }
+
+  // Deletes the inbox's feeds and their articles along with it
+  async deleteNewsletterInbox(id: string): Promise<boolean> {
+    const result = await db.delete(newsletterInboxes).where(eq(newsletterInboxes.id, id)).returning();
+    return result.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
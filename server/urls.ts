@@ -0,0 +1,106 @@
+// URL canonicalisation shared by feed creation, OPML import, ingestion and
+// story clustering.
+
+// Query parameters that only identify where a click came from
+const TRACKING_PARAM_PATTERN = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|yclid|_hsenc|_hsmi|mkt_tok)$/i;
+
+// Referral parameters as news sites put them on article links. Elsewhere they
+// can be real parameters (?rss=1, a ref branch on a code host), so feed URLs keep them.
+const REFERRAL_PARAM_PATTERN = /^(ref|ref_src|cmpid|ncid|ocid|sr_share|at_medium|at_campaign|rss|partner)$/i;
+
+export interface CleanUrlOptions {
+  // Also drop referral parameters; for article links only
+  stripReferrals?: boolean;
+}
+
+// Redirect wrappers that carry their destination in a query parameter.
+// FeedBurner's feedproxy links don't; ingestion uses feedburner:origLink for those.
+const REDIRECTORS: { host: RegExp; path?: RegExp; param: string }[] = [
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, param: "q" },
+  { host: /^(www\.)?google\.[a-z.]+$/, path: /^\/url$/, param: "url" },
+  { host: /^l\.facebook\.com$/, param: "u" },
+  { host: /^lm\.facebook\.com$/, param: "u" },
+  { host: /^out\.reddit\.com$/, param: "url" },
+  { host: /^t\.umblr\.com$/, param: "z" },
+  { host: /^(www\.)?youtube\.com$/, path: /^\/redirect$/, param: "q" },
+  { host: /^(www\.)?linkedin\.com$/, path: /^\/redir\/redirect$/, param: "url" },
+  { host: /^href\.li$/, param: "" },
+];
+
+function parse(input: string): URL | null {
+  try {
+    const url = new URL(input.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// Add a protocol if missing and trim stray whitespace
+export function normalizeUrl(input: string): string {
+  // Remove any leading/trailing whitespace and invisible characters
+  const url = input.trim().replace(/^[\s\u200B]+|[\s\u200B]+$/g, "");
+
+  // If it doesn't start with a protocol, add https://
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+// Follow redirect wrappers whose destination is in the URL itself
+export function unwrapRedirect(input: string): string {
+  let current = input;
+
+  // Wrappers are sometimes nested; a few levels is plenty
+  for (let depth = 0; depth < 3; depth++) {
+    const url = parse(current);
+    if (!url) break;
+
+    const host = url.hostname.toLowerCase();
+    const target = REDIRECTORS
+      .filter((r) => r.host.test(host) && (!r.path || r.path.test(url.pathname)))
+      // href.li puts the destination after "?" without a parameter name
+      .map((r) => (r.param ? url.searchParams.get(r.param) : decodeURIComponent(url.search.slice(1))))
+      .find((candidate) => candidate && parse(candidate));
+    if (!target) break;
+    current = target;
+  }
+
+  return current;
+}
+
+function withoutTracking(url: URL, { stripReferrals = false }: CleanUrlOptions): URL {
+  const params = Array.from(url.searchParams.entries())
+    .filter(([key]) => !TRACKING_PARAM_PATTERN.test(key) && !(stripReferrals && REFERRAL_PARAM_PATTERN.test(key)));
+  url.search = new URLSearchParams(params).toString();
+  return url;
+}
+
+// A URL cleaned up for storing and fetching: redirect wrappers removed, host
+// lower-cased, no fragment or tracking parameters. Scheme, "www." and trailing
+// slashes are kept because servers don't always treat them the same.
+export function cleanUrl(input: string, options: CleanUrlOptions = {}): string {
+  const url = parse(unwrapRedirect(input));
+  if (!url) return input.trim();
+
+  url.hash = "";
+  return withoutTracking(url, options).toString();
+}
+
+// Identity key for a URL, so variants of the same address compare equal:
+// https, lower-case host without "www.", default port, no fragment or
+// tracking parameters, sorted query and no trailing slash.
+export function canonicalizeUrl(input: string, options: CleanUrlOptions = {}): string | null {
+  const url = parse(unwrapRedirect(input));
+  if (!url) return null;
+
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  url.port = "";
+  url.hash = "";
+
+  const params = Array.from(withoutTracking(url, options).searchParams.entries())
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = params.length > 0 ? `?${new URLSearchParams(params).toString()}` : "";
+
+  const pathname = url.pathname.replace(/\/+$/, "");
+  return `${url.protocol}//${url.hostname}${pathname}${search}`;
+}
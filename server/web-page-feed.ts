@@ -0,0 +1,157 @@
+import crypto from "crypto";
+import { JSDOM } from "jsdom";
+import type { ParsedFeed } from "./feed-fetcher";
+import type { WebPageSelectors } from "@shared/schema";
+
+// Web page feeds: pages with no feed of their own (vendor changelogs, notice
+// boards) are scraped with CSS selectors the user picked and mapped onto
+// rss-parser's output shape, like JSON Feed, so ingestion treats them the same.
+
+const MAX_ITEMS = 100;
+const MAX_TITLE_LENGTH = 200;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function textOf(element: Element | null | undefined): string {
+  return (element?.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+function resolveUrl(href: string | null | undefined, base: string): string | null {
+  if (!href) return null;
+  try {
+    const url = new URL(href.trim(), base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Dates the way pages print them: ISO and RFC 2822 dates, "5 October 2026",
+// "October 5, 2026" and day-first numeric dates like 05.10.2026 or 05/10/2026
+export function parseLooseDate(value: string | null | undefined): Date | null {
+  const text = (value || "").trim();
+  if (!text) return null;
+
+  const numeric = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+  if (numeric) {
+    const [, day, month, year] = numeric.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCMonth() === month - 1 ? date : null;
+  }
+
+  const dayFirst = text.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3,})\.?,?\s+(\d{4})/i);
+  if (dayFirst) {
+    const month = MONTHS.indexOf(dayFirst[2].slice(0, 3).toLowerCase());
+    if (month >= 0) return new Date(Date.UTC(Number(dayFirst[3]), month, Number(dayFirst[1])));
+  }
+
+  const parsed = new Date(text.replace(/(\d)(st|nd|rd|th)\b/i, "$1"));
+  return isNaN(parsed.getTime()) ? null : parsed;
+}
+
+// Throw a readable error for selectors the DOM can't parse
+function checkSelectors(document: Document, selectors: WebPageSelectors) {
+  for (const [key, selector] of Object.entries(selectors) as [keyof WebPageSelectors, string | undefined][]) {
+    if (!selector) continue;
+    try {
+      document.createDocumentFragment().querySelector(selector);
+    } catch {
+      throw new Error(`Invalid ${key} selector "${selector}"`);
+    }
+  }
+}
+
+// The element matching `selector` within an item, including the item itself
+function find(item: Element, selector: string | undefined): Element | null {
+  if (!selector) return null;
+  return item.matches(selector) ? item : item.querySelector(selector);
+}
+
+// Without a selector the link is the title's, or else the first one outside the summary
+function itemLink(
+  item: Element,
+  selector: string | undefined,
+  titleElement: Element | null,
+  summaryElement: Element | null,
+  pageUrl: string
+): string | null {
+  const element = selector
+    ? find(item, selector)
+    : (item.matches("a[href]") ? item : null) ||
+      titleElement?.closest("a[href]") ||
+      titleElement?.querySelector("a[href]") ||
+      Array.from(item.querySelectorAll("a[href]")).find((link) => !summaryElement?.contains(link));
+  if (!element) return null;
+  const href = element.getAttribute("href") ??
+    element.closest("a[href]")?.getAttribute("href") ??
+    element.querySelector("a[href]")?.getAttribute("href");
+  return resolveUrl(href, pageUrl);
+}
+
+function itemDate(item: Element, selector: string | undefined): Date | null {
+  const element = selector ? find(item, selector) : item.querySelector("time");
+  if (!element) return null;
+  return parseLooseDate(
+    element.getAttribute("datetime") || element.getAttribute("content") || element.getAttribute("title") || textOf(element)
+  ) || parseLooseDate(textOf(element));
+}
+
+// A copy of an item's summary, with links and images made absolute so they work outside the page
+function summaryCopy(element: Element | null, pageUrl: string): Element | null {
+  if (!element) return null;
+
+  const copy = element.cloneNode(true) as Element;
+  for (const node of Array.from(copy.querySelectorAll("[href], [src]"))) {
+    for (const attribute of ["href", "src"]) {
+      const value = node.getAttribute(attribute);
+      const url = value !== null ? resolveUrl(value, pageUrl) : null;
+      if (url) node.setAttribute(attribute, url);
+    }
+  }
+  return copy;
+}
+
+// Scrape a downloaded page into feed items. Throws on invalid selectors.
+export function scrapeWebPage(html: string, pageUrl: string, selectors: WebPageSelectors): ParsedFeed {
+  const { document } = new JSDOM(html, { url: pageUrl }).window;
+  checkSelectors(document, selectors);
+
+  const meta = (selector: string) => document.querySelector<HTMLMetaElement>(selector)?.content?.trim() || undefined;
+
+  const items = Array.from(document.querySelectorAll(selectors.item)).slice(0, MAX_ITEMS).flatMap((element) => {
+    const titleElement = selectors.title
+      ? find(element, selectors.title)
+      : element.querySelector("h1, h2, h3, h4, h5, h6") || element.querySelector("a[href]");
+    const summaryElement = find(element, selectors.summary);
+    const summary = summaryCopy(summaryElement, pageUrl);
+    const title = (textOf(titleElement) || textOf(element)).slice(0, MAX_TITLE_LENGTH);
+    if (!title) return [];
+
+    const link = itemLink(element, selectors.link, titleElement, summaryElement, pageUrl);
+    const date = itemDate(element, selectors.date);
+    const snippet = summary ? textOf(summary) : undefined;
+
+    // Entries without a link of their own are told apart by title and date, so
+    // an edited summary updates the article instead of adding a new one
+    const guid = link && link !== pageUrl
+      ? link
+      : `${pageUrl}#${crypto.createHash("sha1").update(`${title}\n${date?.toISOString() || ""}`).digest("hex").slice(0, 16)}`;
+
+    return [{
+      guid,
+      link: link || pageUrl,
+      title,
+      content: summary?.innerHTML.trim() || undefined,
+      contentSnippet: snippet,
+      pubDate: date?.toUTCString(),
+      isoDate: date?.toISOString(),
+    }];
+  });
+
+  return {
+    title: meta('meta[property="og:site_name"]') || document.title.trim() || new URL(pageUrl).hostname,
+    link: pageUrl,
+    description: meta('meta[name="description"]') || meta('meta[property="og:description"]'),
+    items,
+  };
+}
@@ -0,0 +1,212 @@
+import crypto from "crypto";
+import { storage } from "./storage";
+import { parseFeedContent } from "./feed-fetcher";
+import { ingestItems } from "./ingestion";
+import { safeFetch } from "./outbound";
+import type { Feed } from "@shared/schema";
+
+// Public base URL hubs use to reach our callback; WebSub is disabled without it
+const PUBLIC_URL = process.env.PUBLIC_URL?.replace(/\/+$/, "");
+
+// Lease we ask hubs for; they are free to grant a different one
+const REQUESTED_LEASE_SECONDS = 7 * 24 * 60 * 60;
+
+// Renew subscriptions this long before their lease runs out
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+
+// Ask again when a hub hasn't verified a request after this long
+const RETRY_UNVERIFIED_MS = 6 * 60 * 60 * 1000;
+
+const SIGNATURE_ALGORITHMS = ["sha1", "sha256", "sha384", "sha512"];
+
+export function isWebSubEnabled(): boolean {
+  return Boolean(PUBLIC_URL);
+}
+
+function callbackUrl(feedId: string): string {
+  return `${PUBLIC_URL}/api/websub/${feedId}`;
+}
+
+async function sendHubRequest(
+  hub: string,
+  params: Record<string, string>
+): Promise<void> {
+  // The hub URL comes from the feed, so it gets the same checks as any other fetch
+  const response = await safeFetch(hub, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "User-Agent": "ModernFeed RSS Reader/1.0",
+    },
+    body: new URLSearchParams(params).toString(),
+    maxBytes: 64 * 1024,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Hub responded with status ${response.status}`);
+  }
+}
+
+// Ask a hub to push updates for a feed. The hub confirms asynchronously by
+// calling our callback with a challenge, handled by verifyIntent below.
+export async function subscribeToHub(feed: Feed, hub: string, topic: string): Promise<void> {
+  if (!isWebSubEnabled()) return;
+
+  try {
+    const existing = await storage.getWebSubSubscription(feed.id);
+    const secret = existing?.secret || crypto.randomBytes(32).toString("hex");
+
+    await storage.saveWebSubSubscription({
+      feedId: feed.id,
+      hub,
+      topic,
+      secret,
+      // A renewal stays subscribed until the hub verifies it, so if the hub
+      // never answers it is retried rather than left pending for good
+      state: existing?.state === "subscribed" ? "subscribed" : "pending",
+      leaseSeconds: existing?.leaseSeconds ?? null,
+      leaseExpiresAt: existing?.leaseExpiresAt ?? null,
+      requestedAt: new Date(),
+    });
+
+    await sendHubRequest(hub, {
+      "hub.mode": "subscribe",
+      "hub.callback": callbackUrl(feed.id),
+      "hub.topic": topic,
+      "hub.secret": secret,
+      "hub.lease_seconds": String(REQUESTED_LEASE_SECONDS),
+    });
+  } catch (error) {
+    console.error(`Error subscribing feed ${feed.id} to WebSub hub ${hub}:`, error);
+  }
+}
+
+export async function unsubscribeFromHub(feedId: string): Promise<void> {
+  const subscription = await storage.getWebSubSubscription(feedId);
+  if (!subscription || !isWebSubEnabled()) return;
+
+  try {
+    await storage.updateWebSubSubscription(feedId, { state: "unsubscribing" });
+    await sendHubRequest(subscription.hub, {
+      "hub.mode": "unsubscribe",
+      "hub.callback": callbackUrl(feedId),
+      "hub.topic": subscription.topic,
+    });
+  } catch (error) {
+    console.error(`Error unsubscribing feed ${feedId} from WebSub hub:`, error);
+  }
+}
+
+// Answer a hub's verification request. Returns the HTTP status and body to send.
+export async function verifyIntent(
+  feedId: string,
+  query: Record<string, unknown>
+): Promise<{ status: number; body: string }> {
+  const mode = String(query["hub.mode"] || "");
+  const topic = String(query["hub.topic"] || "");
+  const challenge = String(query["hub.challenge"] || "");
+  const subscription = await storage.getWebSubSubscription(feedId);
+
+  if (mode === "denied") {
+    if (subscription) {
+      await storage.updateWebSubSubscription(feedId, { state: "denied" });
+      console.warn(`WebSub hub denied subscription for feed ${feedId}: ${query["hub.reason"] || "no reason given"}`);
+    }
+    return { status: 200, body: "" };
+  }
+
+  if (!challenge) {
+    return { status: 400, body: "Missing hub.challenge" };
+  }
+
+  if (mode === "subscribe") {
+    if (!subscription || subscription.topic !== topic || subscription.state === "unsubscribing") {
+      return { status: 404, body: "Unknown subscription" };
+    }
+
+    const leaseSeconds = parseInt(String(query["hub.lease_seconds"] || ""), 10);
+    await storage.updateWebSubSubscription(feedId, {
+      state: "subscribed",
+      leaseSeconds: leaseSeconds > 0 ? leaseSeconds : null,
+      leaseExpiresAt: leaseSeconds > 0 ? new Date(Date.now() + leaseSeconds * 1000) : null,
+    });
+    return { status: 200, body: challenge };
+  }
+
+  if (mode === "unsubscribe") {
+    // With no subscription on record the feed has been deleted, so we don't want its updates either
+    if (subscription && subscription.state !== "unsubscribing") {
+      return { status: 404, body: "Unsubscribe not requested" };
+    }
+
+    if (subscription) {
+      await storage.deleteWebSubSubscription(feedId);
+    }
+    return { status: 200, body: challenge };
+  }
+
+  return { status: 400, body: "Unsupported hub.mode" };
+}
+
+function isValidSignature(secret: string, body: Buffer, header: string | undefined): boolean {
+  if (!header) return false;
+
+  const [algorithm, signature] = header.split("=", 2);
+  if (!signature || !SIGNATURE_ALGORITHMS.includes(algorithm)) return false;
+
+  const expected = crypto.createHmac(algorithm, secret).update(body).digest("hex");
+  const expectedBuffer = Buffer.from(expected, "hex");
+  const signatureBuffer = Buffer.from(signature, "hex");
+  return expectedBuffer.length === signatureBuffer.length &&
+    crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+}
+
+// Ingest content a hub pushed to us. Returns the HTTP status to answer with.
+export async function handlePush(
+  feedId: string,
+  body: Buffer,
+  signature: string | undefined,
+  contentType?: string
+): Promise<number> {
+  const subscription = await storage.getWebSubSubscription(feedId);
+  const feed = await storage.getFeed(feedId);
+
+  // 410 tells the hub to stop delivering to this callback
+  if (!subscription || !feed || subscription.state === "unsubscribing" || subscription.state === "denied") {
+    return 410;
+  }
+
+  // Per the spec, content with a bad signature is acknowledged but ignored
+  if (!isValidSignature(subscription.secret, body, signature)) {
+    console.warn(`Ignoring WebSub push for feed ${feedId} with an invalid signature`);
+    return 202;
+  }
+
+  try {
+    const parsed = await parseFeedContent(body.toString("utf8"), contentType);
+    const report = await ingestItems(feed, parsed.items || []);
+    await storage.updateWebSubSubscription(feedId, { lastPushAt: new Date() });
+    console.log(`[websub] feed ${feedId} pushed ${report.new} new, ${report.updated} updated articles`);
+  } catch (error) {
+    console.error(`Error ingesting WebSub push for feed ${feedId}:`, error);
+  }
+
+  return 202;
+}
+
+// Re-subscribe before leases lapse, and retry requests the hub never verified;
+// run from the scheduler
+export async function renewExpiringSubscriptions(): Promise<void> {
+  if (!isWebSubEnabled()) return;
+
+  const expiring = await storage.getExpiringWebSubSubscriptions(
+    new Date(Date.now() + RENEW_BEFORE_MS),
+    new Date(Date.now() - RETRY_UNVERIFIED_MS)
+  );
+  for (const subscription of expiring) {
+    const feed = await storage.getFeed(subscription.feedId);
+    if (feed) {
+      await subscribeToHub(feed, subscription.hub, subscription.topic);
+    }
+  }
+}
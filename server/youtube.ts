@@ -0,0 +1,122 @@
+import { safeFetch } from "./outbound";
+
+// YouTube channel, handle and playlist pages don't advertise a usable feed link
+// to simple scrapers, but every channel and playlist has an Atom feed at a
+// predictable URL once we know its id.
+
+const FEED_BASE = "https://www.youtube.com/feeds/videos.xml";
+
+// YouTube serves a cookie consent interstitial in some regions without these
+const PAGE_HEADERS = {
+  "User-Agent": "Mozilla/5.0 (compatible; ModernFeed/1.0)",
+  "Accept-Language": "en",
+  Cookie: "CONSENT=YES+cb; SOCS=CAI",
+};
+
+const CHANNEL_ID_PATTERN = /^UC[\w-]{22}$/;
+
+export interface YouTubeFeed {
+  url: string;
+  title: string;
+  type: "YouTube";
+}
+
+export function isYouTubeUrl(url: string): boolean {
+  try {
+    const host = new URL(url).hostname.replace(/^(www\.|m\.|music\.)/, "");
+    return host === "youtube.com" || host === "youtu.be";
+  } catch {
+    return false;
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">");
+}
+
+// Fetch a channel or handle page and pull its channel id and name out of the markup
+async function scrapeChannel(pageUrl: string, isVideo = false): Promise<{ channelId: string; title?: string } | null> {
+  try {
+    const response = await safeFetch(pageUrl, {
+      headers: PAGE_HEADERS,
+      contentTypes: /html/i,
+    });
+    if (!response.ok) return null;
+
+    const html = await response.text();
+    const channelId =
+      html.match(/<meta itemprop="(?:identifier|channelId)" content="(UC[\w-]{22})"/)?.[1] ||
+      html.match(/<link rel="canonical" href="https:\/\/www\.youtube\.com\/channel\/(UC[\w-]{22})"/)?.[1] ||
+      html.match(/feeds\/videos\.xml\?channel_id=(UC[\w-]{22})/)?.[1] ||
+      html.match(/"(?:externalId|channelId|browseId)":"(UC[\w-]{22})"/)?.[1];
+    if (!channelId) return null;
+
+    // On a video page og:title is the video; the uploader is marked up separately
+    const title = isVideo
+      ? html.match(/<link itemprop="name" content="([^"]+)"/)?.[1]
+      : html.match(/<meta property="og:title" content="([^"]+)"/)?.[1];
+    return { channelId, title: title ? decodeEntities(title) : undefined };
+  } catch {
+    return null;
+  }
+}
+
+// Map a YouTube channel, handle, user, playlist or video URL to its Atom feed.
+// Returns null for anything that isn't a YouTube page we know how to resolve.
+export async function resolveYouTubeFeed(input: string): Promise<YouTubeFeed | null> {
+  if (!isYouTubeUrl(input)) return null;
+
+  const url = new URL(input);
+  // Already a feed; nothing to resolve
+  if (url.pathname === "/feeds/videos.xml") return null;
+
+  // Playlists, including a video watched as part of one
+  const playlistId = url.searchParams.get("list");
+  if (playlistId) {
+    return {
+      url: `${FEED_BASE}?playlist_id=${encodeURIComponent(playlistId)}`,
+      title: "YouTube playlist",
+      type: "YouTube",
+    };
+  }
+
+  const [first, second] = url.pathname.split("/").filter(Boolean);
+  if (!first) return null;
+
+  if (first === "channel" && second && CHANNEL_ID_PATTERN.test(second)) {
+    const scraped = await scrapeChannel(`https://www.youtube.com/channel/${second}`);
+    return {
+      url: `${FEED_BASE}?channel_id=${second}`,
+      title: scraped?.title || "YouTube channel",
+      type: "YouTube",
+    };
+  }
+
+  // Handles (/@name), legacy custom URLs (/c/name, /user/name) and videos all
+  // need the page itself to find out which channel they belong to
+  let pageUrl: string | null = null;
+  let isVideo = false;
+  if (first.startsWith("@")) {
+    pageUrl = `https://www.youtube.com/${first}`;
+  } else if ((first === "c" || first === "user") && second) {
+    pageUrl = `https://www.youtube.com/${first}/${second}`;
+  } else if (first === "watch" || url.hostname === "youtu.be" || first === "shorts") {
+    pageUrl = url.toString();
+    isVideo = true;
+  }
+  if (!pageUrl) return null;
+
+  const scraped = await scrapeChannel(pageUrl, isVideo);
+  if (!scraped) return null;
+
+  return {
+    url: `${FEED_BASE}?channel_id=${scraped.channelId}`,
+    title: scraped.title || "YouTube channel",
+    type: "YouTube",
+  };
+}
@@ -1,8 +1,14 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, timestamp, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, timestamp, integer, bigint, uniqueIndex, index, customType, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+const bytea = customType<{ data: Buffer }>({
+  dataType() {
+    return "bytea";
+  },
+});
+
 // Categories for organizing feeds
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -22,19 +28,72 @@ export const insertCategorySchema = createInsertSchema(categories).omit({
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 export type Category = typeof categories.$inferSelect;
 
+// Which articles cleanup deletes (see server/retention.ts). Bookmarked articles
+// are always kept; a null limit doesn't apply.
+export const retentionPolicySchema = z.object({
+  // Delete articles published more than this many days ago
+  maxAgeDays: z.number().int().min(1).max(36500).nullable(),
+  // Keep only this many of each feed's newest articles
+  maxItems: z.number().int().min(1).max(1000000).nullable(),
+  // Unread articles published in the last this many days are kept whatever the limits say
+  keepUnreadDays: z.number().int().min(1).max(36500).nullable(),
+});
+
+export type RetentionPolicy = z.infer<typeof retentionPolicySchema>;
+
 // RSS Feeds
 export const feeds = pgTable("feeds", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   title: text("title").notNull(),
   url: text("url").notNull().unique(),
+  // Identity key of url (see server/urls.ts), used to spot the same feed under different spellings
+  canonicalUrl: text("canonical_url"),
   siteUrl: text("site_url"),
   description: text("description"),
+  // Where the feed's icon (stored in feed_icons, served from /api/feeds/:id/icon) was found
   favicon: text("favicon"),
+  // When the icon was last looked up; icons are looked up again after a week
+  iconCheckedAt: timestamp("icon_checked_at"),
   categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
   lastFetched: timestamp("last_fetched"),
   errorCount: integer("error_count").default(0),
+  // Error from the most recent failed fetch, cleared by the next successful one
+  lastError: text("last_error"),
   isActive: boolean("is_active").default(true),
-});
+  // Why the feed was switched off automatically, e.g. the server answered 410 Gone
+  inactiveReason: text("inactive_reason"),
+  // Minutes between background refreshes; null uses the global default
+  refreshInterval: integer("refresh_interval"),
+  nextFetchAt: timestamp("next_fetch_at"),
+  // Polling hints derived from the feed itself: observed cadence and RSS <ttl>/<skipHours>/<skipDays>
+  adaptiveInterval: integer("adaptive_interval"),
+  ttl: integer("ttl"),
+  skipHours: integer("skip_hours").array(),
+  skipDays: text("skip_days").array(),
+  // HTTP cache validators from the last full response, sent back as conditional GET headers
+  etag: text("etag"),
+  lastModified: text("last_modified"),
+  contentLength: integer("content_length"),
+  bytesSaved: bigint("bytes_saved", { mode: "number" }).default(0),
+  // Download each new article's page and keep its Readability text, for feeds that only publish teasers
+  fetchFullContent: boolean("fetch_full_content").default(false),
+  // Which kind of credentials the feed is fetched with ("basic", "bearer" or
+  // "headers"); the credentials themselves are encrypted in `credentials`
+  authType: text("auth_type"),
+  credentials: text("credentials"),
+  // Set for web page feeds: pages without a feed, scraped with these CSS selectors
+  // (see server/web-page-feed.ts) instead of parsed as RSS/Atom/JSON Feed
+  scrapeSelectors: jsonb("scrape_selectors").$type<WebPageSelectors>(),
+  // Set for newsletter feeds, which receive mail sent to the inbox from one
+  // sender (see server/newsletters.ts) instead of being fetched
+  newsletterInboxId: varchar("newsletter_inbox_id").references(() => newsletterInboxes.id, { onDelete: "cascade" }),
+  // How long the feed's articles are kept; null follows the global retention setting
+  retention: jsonb("retention").$type<RetentionPolicy>(),
+  // Most items taken from one fetch of the feed; null uses the default of 50
+  itemLimit: integer("item_limit"),
+}, (table) => [
+  index("feeds_canonical_url_idx").on(table.canonicalUrl),
+]);
 
 export const feedsRelations = relations(feeds, ({ one, many }) => ({
   category: one(categories, {
@@ -42,16 +101,148 @@ export const feedsRelations = relations(feeds, ({ one, many }) => ({
     references: [categories.id],
   }),
   articles: many(articles),
+  redirects: many(feedRedirects),
 }));
 
 export const insertFeedSchema = createInsertSchema(feeds).omit({
   id: true,
+  canonicalUrl: true,
+  inactiveReason: true,
   lastFetched: true,
   errorCount: true,
+  lastError: true,
+  iconCheckedAt: true,
+  nextFetchAt: true,
+  adaptiveInterval: true,
+  ttl: true,
+  skipHours: true,
+  skipDays: true,
+  etag: true,
+  lastModified: true,
+  contentLength: true,
+  bytesSaved: true,
+  authType: true,
+  credentials: true,
+  scrapeSelectors: true,
+  newsletterInboxId: true,
+}).extend({
+  refreshInterval: z.number().int().min(5).max(7 * 24 * 60).nullable().optional(),
+  retention: retentionPolicySchema.nullable().optional(),
+  itemLimit: z.number().int().min(1).max(1000).nullable().optional(),
 });
 
 export type InsertFeed = z.infer<typeof insertFeedSchema>;
 export type Feed = typeof feeds.$inferSelect;
+// A feed as sent to the client, without its encrypted credentials
+export type PublicFeed = Omit<Feed, "credentials">;
+
+// Credentials and extra request headers for feeds behind authentication.
+// Submitted in plain text and encrypted before they are stored.
+export const feedCredentialsSchema = z.object({
+  authType: z.enum(["none", "basic", "bearer"]),
+  username: z.string().default(""),
+  password: z.string().default(""),
+  token: z.string().default(""),
+  headers: z.array(z.object({
+    name: z.string().regex(/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/, "Invalid header name"),
+    value: z.string(),
+  })).default([]),
+});
+
+export type FeedCredentials = z.infer<typeof feedCredentialsSchema>;
+
+// CSS selectors of a web page feed. `item` matches each entry on the page; the
+// others are looked up inside it, with sensible defaults when left empty.
+export const webPageSelectorsSchema = z.object({
+  item: z.string().trim().min(1, "An item selector is required"),
+  title: z.string().trim().optional(),
+  link: z.string().trim().optional(),
+  date: z.string().trim().optional(),
+  summary: z.string().trim().optional(),
+});
+
+export type WebPageSelectors = z.infer<typeof webPageSelectorsSchema>;
+
+// Addresses newsletters are subscribed with. Mail to <token>@NEWSLETTER_DOMAIN
+// is filed into one feed per sender, created on the first message.
+export const newsletterInboxes = pgTable("newsletter_inboxes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Local part of the address; ends in random characters so it can't be guessed
+  token: text("token").notNull().unique(),
+  // Category given to the feeds created for the inbox's senders
+  categoryId: varchar("category_id").references(() => categories.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertNewsletterInboxSchema = createInsertSchema(newsletterInboxes).pick({
+  name: true,
+  categoryId: true,
+}).extend({
+  name: z.string().trim().min(1, "A name is required").max(100),
+});
+
+export type InsertNewsletterInbox = z.infer<typeof insertNewsletterInboxSchema>;
+export type NewsletterInbox = typeof newsletterInboxes.$inferSelect;
+
+// One row per fetch attempt of a feed, for the diagnostics page
+export const feedFetchLog = pgTable("feed_fetch_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  feedId: varchar("feed_id").notNull().references(() => feeds.id, { onDelete: "cascade" }),
+  fetchedAt: timestamp("fetched_at").notNull().defaultNow(),
+  // Null when the request never got a response (DNS failure, timeout, ...)
+  status: integer("status"),
+  durationMs: integer("duration_ms").notNull(),
+  bytes: integer("bytes"),
+  itemsSeen: integer("items_seen").notNull().default(0),
+  newItems: integer("new_items").notNull().default(0),
+  error: text("error"),
+}, (table) => [
+  index("feed_fetch_log_feed_idx").on(table.feedId, table.fetchedAt),
+]);
+
+export const insertFeedFetchLogSchema = createInsertSchema(feedFetchLog).omit({
+  id: true,
+  fetchedAt: true,
+});
+
+export type InsertFeedFetchLog = z.infer<typeof insertFeedFetchLogSchema>;
+export type FeedFetchLog = typeof feedFetchLog.$inferSelect;
+
+// Each feed's icon, downloaded and scaled down by server/feed-icons.ts
+export const feedIcons = pgTable("feed_icons", {
+  feedId: varchar("feed_id").primaryKey().references(() => feeds.id, { onDelete: "cascade" }),
+  contentType: text("content_type").notNull(),
+  data: bytea("data").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type FeedIcon = typeof feedIcons.$inferSelect;
+
+// Permanent redirects (301/308) the fetcher followed and applied to a feed's URL
+export const feedRedirects = pgTable("feed_redirects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  feedId: varchar("feed_id").notNull().references(() => feeds.id, { onDelete: "cascade" }),
+  fromUrl: text("from_url").notNull(),
+  toUrl: text("to_url").notNull(),
+  statusCode: integer("status_code").notNull(),
+  redirectedAt: timestamp("redirected_at").notNull().defaultNow(),
+});
+
+export const feedRedirectsRelations = relations(feedRedirects, ({ one }) => ({
+  feed: one(feeds, {
+    fields: [feedRedirects.feedId],
+    references: [feeds.id],
+  }),
+}));
+
+export const insertFeedRedirectSchema = createInsertSchema(feedRedirects).omit({
+  id: true,
+  redirectedAt: true,
+});
+
+export type InsertFeedRedirect = z.infer<typeof insertFeedRedirectSchema>;
+export type FeedRedirect = typeof feedRedirects.$inferSelect;
 
 // Articles from feeds
 export const articles = pgTable("articles", {
@@ -67,30 +258,143 @@ export const articles = pgTable("articles", {
   isRead: boolean("is_read").default(false),
   isBookmarked: boolean("is_bookmarked").default(false),
   guid: text("guid").notNull(),
-});
+  // Audio/video enclosure, e.g. a podcast episode
+  enclosureUrl: text("enclosure_url"),
+  enclosureType: text("enclosure_type"),
+  enclosureLength: bigint("enclosure_length", { mode: "number" }),
+  duration: integer("duration"),
+  // Seconds into the enclosure where playback last stopped
+  playbackPosition: integer("playback_position"),
+  // When the publisher last changed the title or content; previous versions are in article_revisions
+  updatedAt: timestamp("updated_at"),
+  // Duplicate detection across feeds: normalised link, SimHash of the text and the story it belongs to
+  canonicalUrl: text("canonical_url"),
+  fingerprint: text("fingerprint"),
+  clusterId: varchar("cluster_id").references(() => storyClusters.id, { onDelete: "set null" }),
+  // Reader-mode extraction of the article's page, kept alongside the feed's own content
+  extractedContent: text("extracted_content"),
+  extractedByline: text("extracted_byline"),
+  extractedExcerpt: text("extracted_excerpt"),
+  extractedSiteName: text("extracted_site_name"),
+  extractedAt: timestamp("extracted_at"),
+}, (table) => [
+  // One row per item per feed; ingestion upserts against this
+  uniqueIndex("articles_feed_guid_idx").on(table.feedId, table.guid),
+  index("articles_canonical_url_idx").on(table.canonicalUrl),
+  index("articles_cluster_idx").on(table.clusterId),
+]);
 
-export const articlesRelations = relations(articles, ({ one }) => ({
+export const articlesRelations = relations(articles, ({ one, many }) => ({
   feed: one(feeds, {
     fields: [articles.feedId],
     references: [feeds.id],
   }),
+  revisions: many(articleRevisions),
+  cluster: one(storyClusters, {
+    fields: [articles.clusterId],
+    references: [storyClusters.id],
+  }),
 }));
 
 export const insertArticleSchema = createInsertSchema(articles).omit({
   id: true,
+  updatedAt: true,
 });
 
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Article = typeof articles.$inferSelect;
 
+// Items deleted by retention cleanup, so ingestion doesn't add them again while
+// they are still in the feed. Rows no feed fetch has seen for a year are dropped.
+export const purgedArticles = pgTable("purged_articles", {
+  feedId: varchar("feed_id").notNull().references(() => feeds.id, { onDelete: "cascade" }),
+  guid: text("guid").notNull(),
+  lastSeenAt: timestamp("last_seen_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("purged_articles_feed_guid_idx").on(table.feedId, table.guid),
+]);
+
+// Earlier versions of an article, saved whenever the publisher edits its title or content
+export const articleRevisions = pgTable("article_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  articleId: varchar("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }),
+  title: text("title").notNull(),
+  content: text("content"),
+  summary: text("summary"),
+  // When this version was replaced by a newer one
+  revisedAt: timestamp("revised_at").notNull().defaultNow(),
+});
+
+export const articleRevisionsRelations = relations(articleRevisions, ({ one }) => ({
+  article: one(articles, {
+    fields: [articleRevisions.articleId],
+    references: [articles.id],
+  }),
+}));
+
+export const insertArticleRevisionSchema = createInsertSchema(articleRevisions).omit({
+  id: true,
+  revisedAt: true,
+});
+
+export type InsertArticleRevision = z.infer<typeof insertArticleRevisionSchema>;
+export type ArticleRevision = typeof articleRevisions.$inferSelect;
+
+// Stories covered by more than one feed; duplicates across feeds share a cluster
+export const storyClusters = pgTable("story_clusters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const storyClustersRelations = relations(storyClusters, ({ many }) => ({
+  articles: many(articles),
+}));
+
+export type StoryCluster = typeof storyClusters.$inferSelect;
+
+// WebSub (PubSubHubbub) push subscriptions, one per feed whose hub we've subscribed to
+export const websubSubscriptions = pgTable("websub_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  feedId: varchar("feed_id").notNull().unique().references(() => feeds.id, { onDelete: "cascade" }),
+  hub: text("hub").notNull(),
+  topic: text("topic").notNull(),
+  // HMAC key the hub uses to sign pushed content
+  secret: text("secret").notNull(),
+  // pending | subscribed | denied | unsubscribing
+  state: text("state").notNull().default("pending"),
+  leaseSeconds: integer("lease_seconds"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  // When we last asked the hub to (re)subscribe, so unanswered requests are retried
+  requestedAt: timestamp("requested_at"),
+  lastPushAt: timestamp("last_push_at"),
+});
+
+export const insertWebSubSubscriptionSchema = createInsertSchema(websubSubscriptions).omit({
+  id: true,
+});
+
+export type InsertWebSubSubscription = z.infer<typeof insertWebSubSubscriptionSchema>;
+export type WebSubSubscription = typeof websubSubscriptions.$inferSelect;
+
+// Server-wide settings changed from the settings page, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
 // Extended types for frontend use
-export type FeedWithCategory = Feed & {
+export type FeedWithCategory = PublicFeed & {
   category: Category | null;
   unreadCount?: number;
 };
 
-export type ArticleWithFeed = Article & {
-  feed: Feed;
+// Article lists leave out extractedContent; it is only loaded for a single article
+export type ArticleWithFeed = Omit<Article, "extractedContent"> & {
+  extractedContent?: string | null;
+  feed: PublicFeed;
+  // Other feeds with the same story, when the article is part of a cluster
+  coveredBy?: Pick<Feed, "id" | "title">[];
 };
 
 // Users table (kept from template)